@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { CRAWL_CONFIG, crawlAuthSurface } from '@/lib/auth-crawler';
+
+/**
+ * API Route: POST /api/crawl
+ *
+ * Crawls a site breadth-first from `url` and maps every auth page it finds
+ * (login, signup, password reset, SSO, MFA, account recovery). The
+ * shallowest auth pages each get a full scan. The crawl stops fetching
+ * after 90s and cancels scans after 270s, setting `stats.truncated`.
+ *
+ * Request body:
+ * {
+ *   "url": "https://example.com",
+ *   "maxPages": 40,   // optional, pages fetched (1-150, default 40)
+ *   "maxDepth": 3,    // optional, link hops from the root (0-5, default 3)
+ *   "maxScans": 10    // optional, auth pages scanned (0-25, default 10)
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "root": "https://example.com/",
+ *   "nodes": [{ "url": "...", "kinds": ["login"], "depth": 1, "result": { ...DetectionResult } }],
+ *   "edges": [{ "from": "https://example.com/", "to": "...", "via": "link", "label": "Sign in" }],
+ *   "stats": { "pagesCrawled": 40, "authPages": 3, "scanned": 3, ... }
+ * }
+ */
+
+const LIMITS: Array<[key: 'maxPages' | 'maxDepth' | 'maxScans', min: number, max: number]> = [
+    ['maxPages', 1, CRAWL_CONFIG.LIMITS.MAX_PAGES],
+    ['maxDepth', 0, CRAWL_CONFIG.LIMITS.MAX_DEPTH],
+    ['maxScans', 0, CRAWL_CONFIG.LIMITS.MAX_SCANS],
+];
+
+export async function POST(request: Request) {
+    const requestId = Math.random().toString(36).substring(7);
+
+    try {
+        const body = await request.json();
+        const { url, maxPages, maxDepth, maxScans } = body;
+
+        if (!url || typeof url !== 'string') {
+            return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+        }
+
+        if (!/^https?:\/\//i.test(url) || !URL.canParse(url)) {
+            return NextResponse.json({ error: 'url must be an absolute http(s) URL' }, { status: 400 });
+        }
+
+        for (const [key, min, max] of LIMITS) {
+            const value = body[key];
+            if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+                return NextResponse.json({ error: `${key} must be an integer between ${min} and ${max}` }, { status: 400 });
+            }
+        }
+
+        const map = await crawlAuthSurface(url, requestId, { maxPages, maxDepth, maxScans });
+
+        return NextResponse.json({ success: true, ...map });
+    } catch (error) {
+        logger.error(requestId, 'API_CRAWL_ERROR', error as Error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { detectionCache } from '@/lib/cache';
+import { scanHistory } from '@/lib/scan-history';
+
+/**
+ * API Route: GET /api/history
+ *
+ * Scan history of a URL and what changed between scans
+ *
+ * Query: ?url=https://example.com/login&from=<snapshotId>&to=<snapshotId>
+ * (`from` and `to` are optional; the diff defaults to the two latest snapshots)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "url": "https://example.com/login",
+ *   "timeline": [{ "id": "...", "scannedAt": 1700000000000, "lastSeenAt": ..., "scanCount": 3,
+ *                  "componentCount": 2, "breaking": false, "changes": [] }, ...],
+ *   "diff": { "from": {...}, "to": {...}, "breaking": true, "changes": [{ "kind": "selector-broken", ... }] }
+ * }
+ */
+
+export async function GET(request: Request) {
+    const requestId = Math.random().toString(36).substring(7);
+    const { searchParams } = new URL(request.url);
+    const url = searchParams.get('url');
+    const from = searchParams.get('from') ?? undefined;
+    const to = searchParams.get('to') ?? undefined;
+
+    if (!url) {
+        return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    try {
+        const timeline = await scanHistory.timeline(url);
+
+        if (timeline.length === 0) {
+            return NextResponse.json({ error: 'No scan history for this URL' }, { status: 404 });
+        }
+
+        const diff = await scanHistory.diff(url, from, to);
+
+        if ((from || to) && !diff) {
+            return NextResponse.json({ error: 'from and to must be two different snapshot ids of this URL' }, { status: 400 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            url: detectionCache.normalizeURL(url),
+            timeline,
+            diff,
+        });
+    } catch (error) {
+        logger.error(requestId, 'API_HISTORY_ERROR', error as Error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        );
+    }
+}
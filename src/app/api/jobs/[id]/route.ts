@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { scanJobs } from '@/lib/scan-jobs';
+
+/**
+ * API Route: GET /api/jobs/{id}
+ *
+ * Job status: `queued`, `running`, `done` (with `result`), `failed` (with
+ * `error`) or `cancelled`
+ *
+ * DELETE /api/jobs/{id} - Cancels a queued or running job; a running scan
+ * has its page and browser context closed
+ */
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const job = await scanJobs.get(id);
+
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const job = await scanJobs.cancel(id);
+
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, job });
+}
@@ -0,0 +1,68 @@
+import { after, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { validateScanOptions } from '@/lib/scan';
+import { scanJobs } from '@/lib/scan-jobs';
+
+/**
+ * API Route: POST /api/jobs
+ *
+ * Queues a scan and returns immediately; poll GET /api/jobs/{id} for the result
+ *
+ * Request body (same as POST /api/scrape):
+ * {
+ *   "url": "https://example.com",
+ *   "minConfidence": 0.5,  // optional
+ *   "explore": true,       // optional
+ *   "discover": false      // optional
+ * }
+ *
+ * Response (202):
+ * {
+ *   "success": true,
+ *   "jobId": "…",
+ *   "status": "queued",
+ *   "statusUrl": "/api/jobs/…"
+ * }
+ */
+
+export async function POST(request: Request) {
+    const requestId = Math.random().toString(36).substring(7);
+
+    try {
+        const body = await request.json();
+        const { url, minConfidence, explore, discover } = body;
+
+        if (!url || typeof url !== 'string') {
+            return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+        }
+
+        const optionsError = validateScanOptions(body);
+        if (optionsError) {
+            return NextResponse.json({ error: optionsError }, { status: 400 });
+        }
+
+        if (scanJobs.isFull()) {
+            return NextResponse.json({ error: 'Too many queued scans, retry later' }, { status: 503 });
+        }
+
+        const job = await scanJobs.submit(url, { minConfidence, explore, discover });
+
+        // Keeps a serverless function alive until the scan finishes
+        after(() => scanJobs.whenSettled(job.id));
+
+        return NextResponse.json(
+            { success: true, jobId: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` },
+            { status: 202 }
+        );
+    } catch (error) {
+        logger.error(requestId, 'API_JOB_SUBMIT_ERROR', error as Error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { detectionCache } from '@/lib/cache';
+import { generatePlaywrightTest, scaffoldFileName } from '@/lib/test-scaffold';
+import type { DetectionResult } from '@/lib/types/auth.types';
+
+/**
+ * API Route: POST /api/scaffold
+ *
+ * Generates a Playwright login test (TypeScript) from a detection result
+ *
+ * Request body, either:
+ * {
+ *   "result": { ...DetectionResult }   // as returned by POST /api/scrape
+ * }
+ * or:
+ * {
+ *   "url": "https://example.com"       // uses the cached scan of that URL
+ * }
+ *
+ * Response: the spec file as text/plain, with a Content-Disposition file name
+ */
+
+export async function POST(request: Request) {
+    const requestId = Math.random().toString(36).substring(7);
+
+    try {
+        const { result, url } = await request.json();
+
+        if (result !== undefined && !isDetectionResult(result)) {
+            return NextResponse.json({ error: 'result must be a detection result with url and components' }, { status: 400 });
+        }
+
+        if (!result && !url) {
+            return NextResponse.json({ error: 'result or url is required' }, { status: 400 });
+        }
+
+        const detection: DetectionResult | null = result ?? detectionCache.get(url, requestId);
+        if (!detection) {
+            return NextResponse.json({ error: 'No cached scan for this URL; scan it with POST /api/scrape first' }, { status: 404 });
+        }
+
+        const spec = generatePlaywrightTest(detection);
+        const fileName = scaffoldFileName(detection.url);
+
+        logger.success(requestId, 'API_SCAFFOLD_DONE', {
+            url: detection.url,
+            components: detection.components.length,
+            lines: spec.split('\n').length,
+            fileName,
+        });
+
+        return new NextResponse(spec, {
+            headers: {
+                'Content-Type': 'text/plain; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+            },
+        });
+    } catch (error) {
+        logger.error(requestId, 'API_SCAFFOLD_ERROR', error as Error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+function isDetectionResult(value: unknown): value is DetectionResult {
+    const candidate = value as Partial<DetectionResult> | null;
+    return !!candidate && typeof candidate.url === 'string' && Array.isArray(candidate.components);
+}
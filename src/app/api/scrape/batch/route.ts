@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { BATCH_CONFIG, runBatchScan, validateScanOptions } from '@/lib/scan';
+
+/**
+ * API Route: POST /api/scrape/batch
+ *
+ * Scans several URLs in one request over the shared browser pool. URLs are
+ * deduped (same normalization as the cache) and cached scans are served
+ * without a browser. The batch stops after `BATCH_CONFIG.TIME_BUDGET`; URLs
+ * it could not finish fail with "Batch time budget exceeded".
+ *
+ * Request body:
+ * {
+ *   "urls": ["https://example.com", "https://example.org/login"],
+ *   "concurrency": 3,      // optional, scans in flight (1-5, default 3)
+ *   "minConfidence": 0.5,  // optional, applied to every URL
+ *   "explore": true,       // optional, applied to every URL
+ *   "discover": false      // optional, applied to every URL
+ * }
+ *
+ * Response (a failed URL does not fail the batch):
+ * {
+ *   "success": true,
+ *   "total": 2, "succeeded": 1, "failed": 1, "cached": 0, "skipped": 0,
+ *   "duplicates": [],
+ *   "results": [
+ *     { "url": "https://example.com", "success": true, "result": { ...DetectionResult } },
+ *     { "url": "https://example.org/login", "success": false, "error": "..." }
+ *   ],
+ *   "duration": 12345
+ * }
+ */
+
+export async function POST(request: Request) {
+    const requestId = Math.random().toString(36).substring(7);
+
+    try {
+        const body = await request.json();
+        const { urls, concurrency, minConfidence, explore, discover } = body;
+
+        if (!Array.isArray(urls) || urls.length === 0 || !urls.every(u => typeof u === 'string' && u.length > 0)) {
+            return NextResponse.json({ error: 'urls must be a non-empty array of URLs' }, { status: 400 });
+        }
+
+        if (urls.length > BATCH_CONFIG.MAX_URLS) {
+            return NextResponse.json({ error: `At most ${BATCH_CONFIG.MAX_URLS} URLs per batch` }, { status: 400 });
+        }
+
+        if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > BATCH_CONFIG.MAX_CONCURRENCY)) {
+            return NextResponse.json({ error: `concurrency must be an integer between 1 and ${BATCH_CONFIG.MAX_CONCURRENCY}` }, { status: 400 });
+        }
+
+        const optionsError = validateScanOptions(body);
+        if (optionsError) {
+            return NextResponse.json({ error: optionsError }, { status: 400 });
+        }
+
+        const batch = await runBatchScan(urls, requestId, { minConfidence, explore, discover }, concurrency);
+
+        return NextResponse.json({ success: true, ...batch });
+    } catch (error) {
+        logger.error(requestId, 'API_BATCH_ERROR', error as Error);
+
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+            },
+            { status: 500 }
+        );
+    }
+}
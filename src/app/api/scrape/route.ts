@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server';
-import { scrapeWebsite } from '@/lib/scraper';
-import { detectAuthentication } from '@/lib/detector';
 import { logger } from '@/lib/logger';
-import { browserPool } from '@/lib/browser-pool';
 import { detectionCache } from '@/lib/cache';
+import { REPORT_CONTENT_TYPES, REPORT_FORMATS, renderReport, reportFileName, resolveReportFormat } from '@/lib/report';
+import { runScan, validateScanOptions } from '@/lib/scan';
 
 /**
  * API Route: POST /api/detect
@@ -12,8 +11,17 @@ import { detectionCache } from '@/lib/cache';
  * 
  * Request body:
  * {
- *   "url": "https://example.com"
+ *   "url": "https://example.com",
+ *   "minConfidence": 0.5,  // optional, drops components scoring below it
+ *   "discover": false      // optional, scans the URL as-is instead of following it to its login page
  * }
+ *
+ * `explore` is rejected here because it can outlast the route's 90s limit;
+ * submit explored scans to POST /api/jobs.
+ *
+ * Report format: `?format=json|markdown|html|csv|sarif`, or the `Accept`
+ * header (application/json, text/markdown, text/html, text/csv,
+ * application/sarif+json). Defaults to JSON; errors are always JSON.
  * 
  * Response:
  * {
@@ -28,10 +36,15 @@ import { detectionCache } from '@/lib/cache';
 
 export async function POST(request: Request) {
     const requestId = Math.random().toString(36).substring(7);
-    const startTime = Date.now();
 
     try {
-        const { url } = await request.json();
+        const body = await request.json();
+        const { url, minConfidence, explore, discover } = body;
+
+        const format = resolveReportFormat(new URL(request.url).searchParams.get('format'), request.headers.get('accept'));
+        if (!format) {
+            return NextResponse.json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` }, { status: 400 });
+        }
 
         /**
          * Validate URL
@@ -40,108 +53,27 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'URL is required' }, { status: 400 });
         }
 
-        logger.info(requestId, 'API_REQUEST_START', { url });
-
-        /**
-         * Check cache first (99%+ faster for cache hits)
-         */
-        const cachedResult = detectionCache.get(url, requestId);
-        if (cachedResult) {
-            logger.success(requestId, 'API_REQUEST_SUCCESS_CACHED', {
-                found: cachedResult.found,
-                componentCount: cachedResult.components.length,
-                detectionMethod: cachedResult.detectionMethod,
-                duration: `${Date.now() - startTime}ms`,
-                cached: true,
-            }, startTime);
-
-            return NextResponse.json({
-                ...cachedResult,
-                cached: true,
-            });
+        const optionsError = validateScanOptions(body, { allowExplore: false });
+        if (optionsError) {
+            return NextResponse.json({ error: optionsError }, { status: 400 });
         }
 
-        /**
-         * Step 1: Scrape website (get HTML + screenshot + live page)
-         */
-        const scrapeResult = await scrapeWebsite(url, requestId);
+        logger.info(requestId, 'API_REQUEST_START', { url });
 
-        if (!scrapeResult.success || !scrapeResult.html || !scrapeResult.page) {
-            return NextResponse.json(
-                { success: false, error: scrapeResult.error || 'Failed to scrape website' },
-                { status: 500 }
-            );
+        const outcome = await runScan(url, requestId, { minConfidence, explore, discover });
+        if (!outcome.success) {
+            return NextResponse.json({ success: false, error: outcome.error }, { status: 500 });
         }
 
-        try {
-            /**
-             * Step 2: Detect authentication components
-             * 
-             * Pass:
-             * - HTML (for AI analysis)
-             * - Screenshot (for visual context)
-             * - Live page (for Playwright extraction)
-             */
-            const detectionResult = await detectAuthentication(
-                scrapeResult.html,
-                url,
-                scrapeResult.screenshot,
-                scrapeResult.page,
-                requestId
-            );
-
-            logger.success(
-                requestId,
-                'API_REQUEST_SUCCESS',
-                {
-                    found: detectionResult.found,
-                    componentCount: detectionResult.components.length,
-                    detectionMethod: detectionResult.detectionMethod,
-                    duration: `${Date.now() - startTime}ms`,
-                },
-                startTime
-            );
-
-            /**
-             * Cache the detection result for future requests
-             */
-            detectionCache.set(url, detectionResult, requestId);
-
-            /**
-             * Return successful detection result
-             */
-            return NextResponse.json({
-                ...detectionResult,
-                pageTitle: scrapeResult.title,
-                screenshot: scrapeResult.screenshot,
-                cached: false,
-            });
-        } finally {
-            if (scrapeResult.page) {
-                try {
-                    await scrapeResult.page.close();
-                    logger.info(requestId, 'API_CLEANUP_PAGE_CLOSED', {
-                        message: 'Page closed after detection',
-                    });
-                } catch (closeError) {
-                    logger.warn(
-                        requestId,
-                        'API_CLEANUP_PAGE_CLOSE_ERROR',
-                        'Failed to close page',
-                        {
-                            error:
-                                closeError instanceof Error
-                                    ? closeError.message
-                                    : String(closeError),
-                        }
-                    );
-                }
-            }
-
-            if (scrapeResult.context) {
-                await browserPool.closeContext(scrapeResult.context, requestId);
-            }
-        }
+        const report = outcome.report;
+        if (format === 'json') return NextResponse.json(report);
+
+        return new NextResponse(renderReport(report, format), {
+            headers: {
+                'Content-Type': REPORT_CONTENT_TYPES[format],
+                'Content-Disposition': `inline; filename="${reportFileName(report, format)}"`,
+            },
+        });
     } catch (error) {
         logger.error(requestId, 'API_REQUEST_ERROR', error as Error);
 
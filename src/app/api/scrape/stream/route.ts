@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { runScan, validateScanOptions } from '@/lib/scan';
+import { partialComponent, toProgressEvent } from '@/lib/scan-progress';
+import type { ScanStage } from '@/lib/types/auth.types';
+
+/**
+ * API Route: GET /api/scrape/stream
+ *
+ * Same scan as POST /api/scrape, streamed as Server-Sent Events so clients
+ * can follow it live (works with `EventSource`)
+ *
+ * Query: ?url=https://example.com&minConfidence=0.5&discover=false
+ * (`explore` is rejected; explored scans go through POST /api/jobs)
+ *
+ * Events:
+ *   progress   - a pipeline step: { step, stage, level, elapsed, message?, data? }
+ *   component  - a component as soon as it is extracted (no preview or screenshot)
+ *   result     - the final result, same shape as POST /api/scrape
+ *   scan-error - { error } when the scan fails
+ *
+ * Closing the connection cancels the scan.
+ */
+
+export async function GET(request: Request) {
+    const requestId = Math.random().toString(36).substring(7);
+    const { searchParams } = new URL(request.url);
+    const url = searchParams.get('url');
+    const minConfidence = searchParams.has('minConfidence') ? Number(searchParams.get('minConfidence')) : undefined;
+    const explore = searchParams.has('explore') ? searchParams.get('explore') === 'true' : undefined;
+    const discover = searchParams.has('discover') ? searchParams.get('discover') === 'true' : undefined;
+
+    if (!url) {
+        return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const optionsError = validateScanOptions({ minConfidence, explore, discover }, { allowExplore: false });
+    if (optionsError) {
+        return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+
+    const startTime = Date.now();
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let open = true;
+            let stage: ScanStage = 'cache';
+
+            const send = (event: string, data: unknown) => {
+                if (!open) return;
+                try {
+                    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                } catch {
+                    open = false;
+                }
+            };
+
+            const unsubscribe = logger.subscribe(requestId, entry => {
+                const event = toProgressEvent(entry, startTime, stage);
+                stage = event.stage;
+                send('progress', event);
+            });
+
+            logger.info(requestId, 'API_STREAM_START', { url });
+
+            try {
+                const outcome = await runScan(url, requestId, {
+                    minConfidence,
+                    explore,
+                    discover,
+                    signal: request.signal,
+                    onComponent: component => send('component', partialComponent(component)),
+                });
+
+                if (outcome.success) {
+                    send('result', outcome.report);
+                } else {
+                    send('scan-error', { error: outcome.error });
+                }
+            } catch (error) {
+                logger.error(requestId, 'API_STREAM_ERROR', error as Error);
+                send('scan-error', { error: error instanceof Error ? error.message : 'Internal server error' });
+            } finally {
+                unsubscribe();
+                if (open) {
+                    open = false;
+                    controller.close();
+                }
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            // Stop proxies (nginx) from buffering the stream
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
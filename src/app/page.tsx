@@ -1,8 +1,178 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { AccessibilityImpact, AuthComponent, AuthComponentType, LoginDiscovery, PlatformFingerprint, ScanProgressEvent, ScanStage, SecuritySeverity } from '@/lib/types/auth.types';
+
+// Badge styling per component type
+const COMPONENT_BADGES: Record<AuthComponentType, { label: string; color: string; shape: string }> = {
+    traditional: { label: 'Traditional Auth', color: '#c8ff00', shape: 'rotate-45' },
+    oauth: { label: 'OAuth Providers', color: '#00ffff', shape: 'rounded-full' },
+    passwordless: { label: 'Passwordless', color: '#ff2281', shape: 'skew-x-12' },
+    sso: { label: 'Enterprise SSO', color: '#ffb000', shape: 'rotate-12' },
+    mfa: { label: 'Multi-Factor', color: '#b388ff', shape: '-rotate-12' },
+    registration: { label: 'Registration', color: '#7cff6b', shape: 'rounded-sm' },
+    recovery: { label: 'Account Recovery', color: '#ff8a3d', shape: '-skew-x-12' },
+    captcha: { label: 'CAPTCHA Gate', color: '#ffffff', shape: 'rounded-none' },
+};
+
+const badgeFor = (type: AuthComponentType) => COMPONENT_BADGES[type] ?? COMPONENT_BADGES.traditional;
+
+const REPORT_FORMATS = [
+    { format: 'markdown', label: 'MD' },
+    { format: 'html', label: 'HTML' },
+    { format: 'csv', label: 'CSV' },
+    { format: 'sarif', label: 'SARIF' },
+];
+
+// Save a fetch response as a file, named by its Content-Disposition when present
+async function downloadResponse(response: Response, fallbackName: string) {
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await response.blob());
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
+
+// Detail chips shared by the accordion and result cards
+function ComponentDetailChips({ component }: { component: AuthComponent }) {
+    const { color } = badgeFor(component.type);
+    const chips = [
+        ...(component.details.providers || []),
+        ...(component.details.fields || []).map(f => `${f} FIELD`),
+        ...(component.details.method ? [`METHOD: ${component.details.method}`] : []),
+        ...(component.details.kind ? [`KIND: ${component.details.kind}`] : []),
+        ...(component.details.intent ? [`INTENT: ${component.details.intent}`] : []),
+    ];
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {chips.map(chip => (
+                <div key={chip} className="px-4 py-2 bg-[#1a1a1a] border text-sm font-bold uppercase brutal-shadow-sm" style={{ borderColor: color, color }}>
+                    {chip}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const SEVERITY_COLORS: Record<SecuritySeverity, string> = {
+    high: '#ff2281',
+    medium: '#ffb800',
+    low: '#00ffff',
+};
+
+const IMPACT_COLORS: Record<AccessibilityImpact, string> = {
+    critical: '#ff2281',
+    serious: '#ff2281',
+    moderate: '#ffb800',
+    minor: '#00ffff',
+};
+
+// Audit findings (security, accessibility) for a component
+function AuditFindings({ title, findings }: {
+    title: string;
+    findings?: Array<{ id: string; level: string; color: string; message: string; element?: string }>;
+}) {
+    if (!findings) return null;
+
+    return (
+        <div className="space-y-2 font-mono text-xs">
+            <div className="text-white/40">{title}: {findings.length ? `${findings.length} FINDING(S)` : 'NO ISSUES FOUND'}</div>
+            {findings.map(finding => (
+                <div key={`${finding.id}:${finding.element ?? ''}`} className="flex gap-2 text-white/70 break-all">
+                    <span className="font-bold uppercase shrink-0" style={{ color: finding.color }}>{finding.level}</span>
+                    <span>{finding.message}{finding.element && <span className="text-white/40">{` · ${finding.element}`}</span>}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+
+const STAGE_LABELS: Record<ScanStage, string> = {
+    cache: 'CACHE',
+    browser: 'BROWSER',
+    scrape: 'LOAD PAGE',
+    explore: 'EXPLORE FLOW',
+    detect: 'DETECT',
+    ai: 'AI MODEL',
+    extract: 'EXTRACT',
+    audit: 'AUDIT',
+    cleanup: 'FINISH',
+};
+
+const LEVEL_COLORS: Record<ScanProgressEvent['level'], string> = {
+    info: '#00ffff',
+    success: '#c8ff00',
+    warn: '#ffb800',
+    error: '#ff2281',
+};
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Live pipeline of a running scan: one row per stage, the latest steps and the components found so far
+function ScanTimeline({ events, components }: { events: ScanProgressEvent[]; components: AuthComponent[] }) {
+    if (events.length === 0) return null;
+
+    // Consecutive steps of the same stage form one row
+    const stages = events.reduce<Array<{ stage: ScanStage; events: ScanProgressEvent[] }>>((rows, event) => {
+        const last = rows[rows.length - 1];
+        if (last?.stage === event.stage) last.events.push(event);
+        else rows.push({ stage: event.stage, events: [event] });
+        return rows;
+    }, []);
+
+    return (
+        <div className="w-full mt-12 space-y-6 font-mono text-xs text-left">
+            <div className="space-y-2">
+                {stages.map(({ stage, events: stageEvents }, i) => {
+                    const current = i === stages.length - 1;
+                    const latest = stageEvents[stageEvents.length - 1];
+                    const problems = stageEvents.filter(e => e.level === 'warn' || e.level === 'error').length;
+
+                    return (
+                        <div key={`${stage}-${i}`} className={`flex items-center gap-3 ${current ? 'text-white' : 'text-white/50'}`}>
+                            <span className={`w-3 h-3 shrink-0 ${current ? 'animate-pulse' : ''}`} style={{ background: current ? '#c8ff00' : '#ffffff40' }}></span>
+                            <span className="w-28 shrink-0 font-bold">{STAGE_LABELS[stage]}</span>
+                            <span className="truncate">{latest.step}</span>
+                            {problems > 0 && <span className="shrink-0" style={{ color: LEVEL_COLORS.warn }}>{problems} WARN</span>}
+                            <span className="ml-auto shrink-0 text-white/40">{seconds(latest.elapsed)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="border-t-2 border-white/20 pt-4 space-y-1">
+                {events.slice(-8).map((event, i) => (
+                    <div key={`${event.elapsed}-${event.step}-${i}`} className="flex gap-3 text-white/60 break-all">
+                        <span className="w-14 shrink-0 text-white/40">{seconds(event.elapsed)}</span>
+                        <span className="font-bold shrink-0" style={{ color: LEVEL_COLORS[event.level] }}>{event.step}</span>
+                        <span className="truncate">
+                            {event.message ?? Object.entries(event.data ?? {}).map(([key, value]) => `${key}=${value}`).join(' ')}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {components.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    <span className="w-full text-white/40">FOUND SO FAR</span>
+                    {components.map((component, i) => {
+                        const badge = badgeFor(component.type);
+                        return (
+                            <span key={i} className="px-3 py-1 border-2 font-bold uppercase" style={{ borderColor: badge.color, color: badge.color }}>
+                                {badge.label}
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
 
 
 // Loading Animation Component
@@ -42,8 +212,9 @@ function BrutalLoader() {
 
 
 // Accordion Component
-function BrutalAccordionItem({ component, index }: { component: any, index: number }) {
+function BrutalAccordionItem({ component }: { component: AuthComponent }) {
     const [isOpen, setIsOpen] = useState(false);
+    const badge = badgeFor(component.type);
 
     return (
         <div className="w-full brutal-card overflow-hidden">
@@ -52,13 +223,10 @@ function BrutalAccordionItem({ component, index }: { component: any, index: numb
                 className="w-full px-6 py-4 flex items-center justify-between bg-[#1a1a1a] hover:bg-[#222] transition-colors"
             >
                 <div className="flex items-center gap-4">
-                    {component.type === 'traditional' && <div className="w-3 h-3 bg-[#c8ff00] rotate-45"></div>}
-                    {component.type === 'oauth' && <div className="w-3 h-3 bg-[#00ffff] rounded-full"></div>}
-                    {component.type === 'passwordless' && <div className="w-3 h-3 bg-[#ff2281] skew-x-12"></div>}
+                    <div className={`w-3 h-3 ${badge.shape}`} style={{ backgroundColor: badge.color }}></div>
 
                     <span className="text-lg font-bold uppercase tracking-widest text-white">
-                        {component.type === 'traditional' ? 'Traditional Auth' :
-                            component.type === 'oauth' ? 'OAuth Providers' : 'Passwordless'}
+                        {badge.label}
                     </span>
                 </div>
                 <div className={`transform transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}>
@@ -72,24 +240,7 @@ function BrutalAccordionItem({ component, index }: { component: any, index: numb
                         {/* Details */}
                         <div>
                             <div className="text-[#c8ff00] text-xs font-bold uppercase tracking-widest mb-3">DETAILS</div>
-                            {component.type === 'oauth' && component.details.providers && (
-                                <div className="text-white/80 font-mono text-sm">
-                                    <span className="text-white/50">Providers: </span>
-                                    {component.details.providers.join(', ')}
-                                </div>
-                            )}
-                            {component.type === 'traditional' && component.details.fields && (
-                                <div className="text-white/80 font-mono text-sm">
-                                    <span className="text-white/50">Fields: </span>
-                                    {component.details.fields.join(', ')}
-                                </div>
-                            )}
-                            {component.type === 'passwordless' && component.details.method && (
-                                <div className="text-white/80 font-mono text-sm">
-                                    <span className="text-white/50">Method: </span>
-                                    {component.details.method}
-                                </div>
-                            )}
+                            <ComponentDetailChips component={component} />
                         </div>
 
                         {/* Snippet */}
@@ -100,7 +251,7 @@ function BrutalAccordionItem({ component, index }: { component: any, index: numb
                                     <button
                                         onClick={(e) => {
                                             e.stopPropagation();
-                                            navigator.clipboard.writeText(component.snippet);
+                                            navigator.clipboard.writeText(component.snippet!);
                                         }}
                                         className="text-[10px] text-white/50 hover:text-white underline decoration-dotted uppercase"
                                     >
@@ -125,26 +276,26 @@ export default function Home() {
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState<{
         success: boolean;
+        url: string;
         found: boolean;
-        components: Array<{
-            type: 'traditional' | 'oauth' | 'passwordless';
-            snippet?: string;
-            details: {
-                fields?: string[];
-                providers?: string[];
-                method?: string;
-            };
-        }>;
+        components: AuthComponent[];
         detectionMethod: string;
+        platform?: PlatformFingerprint;
+        discovery?: LoginDiscovery;
+        annotatedScreenshot?: string;
         pageTitle?: string;
         screenshot?: string;
         cached?: boolean;
     } | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<ScanProgressEvent[]>([]);
+    const [partialComponents, setPartialComponents] = useState<AuthComponent[]>([]);
     const [mounted, setMounted] = useState(false);
+    const scanStream = useRef<EventSource | null>(null);
 
     useEffect(() => {
         setMounted(true);
+        return () => scanStream.current?.close();
     }, []);
 
     // Combine all snippets for display
@@ -152,34 +303,98 @@ export default function Home() {
         .map(c => c.snippet || `<!-- ${c.type} detected -->`)
         .join('\n\n') || '';
 
-    const handleAnalyze = async (e: React.FormEvent) => {
+    const previews = result?.components
+        .filter((c): c is AuthComponent & { preview: string } => !!c.preview) || [];
+
+    // Streams pipeline steps and components while the scan runs; closing the stream cancels it
+    const handleAnalyze = (e: React.FormEvent) => {
         e.preventDefault();
         if (!url) return;
 
+        scanStream.current?.close();
         setLoading(true);
         setResult(null);
         setError(null);
+        setProgress([]);
+        setPartialComponents([]);
+
+        const source = new EventSource(`/api/scrape/stream?${new URLSearchParams({ url })}`);
+        scanStream.current = source;
+
+        const finish = () => {
+            source.close();
+            setLoading(false);
+        };
+
+        source.addEventListener('progress', (event: MessageEvent) => {
+            setProgress(events => [...events, JSON.parse(event.data)]);
+        });
+        source.addEventListener('component', (event: MessageEvent) => {
+            setPartialComponents(components => [...components, JSON.parse(event.data)]);
+        });
+        source.addEventListener('result', (event: MessageEvent) => {
+            setResult(JSON.parse(event.data));
+            finish();
+        });
+        source.addEventListener('scan-error', (event: MessageEvent) => {
+            setError(JSON.parse(event.data).error || 'Something went wrong');
+            finish();
+        });
+        // Fires on a rejected request or a dropped connection; EventSource would retry, so stop it
+        source.onerror = () => {
+            setError('The scan stream was interrupted');
+            finish();
+        };
+    };
+
+    // Served from the scan cache, so this does not rescan the page
+    const handleDownloadReport = async (format: string) => {
+        if (!result) return;
+        setError(null);
 
         try {
-            const response = await fetch('/api/scrape', {
+            const response = await fetch(`/api/scrape?format=${format}`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ url }),
+                body: JSON.stringify({ url: result.url }),
             });
 
-            const data = await response.json();
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Could not build the report');
+            }
+
+            await downloadResponse(response, `auth-report.${format}`);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : 'An error occurred');
+        }
+    };
+
+    const handleExportTest = async () => {
+        if (!result) return;
+        setError(null);
+
+        try {
+            // Images and previews are not needed to write selectors
+            const components = result.components.map(c => ({ ...c, screenshot: undefined, preview: undefined }));
+            const response = await fetch('/api/scaffold', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ result: { ...result, components, screenshot: undefined, annotatedScreenshot: undefined } }),
+            });
 
             if (!response.ok) {
-                throw new Error(data.error || 'Something went wrong');
+                const data = await response.json();
+                throw new Error(data.error || 'Could not generate the test');
             }
 
-            setResult(data);
+            await downloadResponse(response, 'auth.spec.ts');
         } catch (err: unknown) {
             setError(err instanceof Error ? err.message : 'An error occurred');
-        } finally {
-            setLoading(false);
         }
     };
 
@@ -267,6 +482,7 @@ export default function Home() {
                 {loading && (
                     <div className="w-full brutal-card p-12 animate-slide-up">
                         <BrutalLoader />
+                        <ScanTimeline events={progress} components={partialComponents} />
                     </div>
                 )}
 
@@ -289,6 +505,18 @@ export default function Home() {
                         {/* Status Header */}
                         <div className="flex items-center justify-between border-b-4 border-white pb-4">
                             <h2 className="text-brutal-lg">ANALYSIS RESULT</h2>
+                            <div className="flex flex-wrap gap-2 ml-auto mr-4">
+                                {REPORT_FORMATS.map(({ format, label }) => (
+                                    <button key={format} onClick={() => handleDownloadReport(format)} className="brutal-button-outline px-3 py-2 text-xs">
+                                        {label}
+                                    </button>
+                                ))}
+                                {result.found && (
+                                    <button onClick={handleExportTest} className="brutal-button-outline px-4 py-2 text-xs">
+                                        EXPORT PLAYWRIGHT TEST
+                                    </button>
+                                )}
+                            </div>
                             <div className={`px-8 py-4 font-bold text-sm uppercase tracking-widest ${result.found
                                 ? 'bg-[#c8ff00] text-[#000000] border-[3px] border-[#000000]'
                                 : 'bg-[#ff2281] text-[#000000] border-[3px] border-[#000000]'
@@ -298,6 +526,37 @@ export default function Home() {
                             </div>
                         </div>
 
+                        {result.platform?.matches[0] && (
+                            <div className="font-mono text-xs text-white/70">
+                                <span className="text-white/40">PLATFORM: </span>
+                                {result.platform.matches
+                                    .map(m => `${m.name.toUpperCase()} (${m.category.toUpperCase()}) ${Math.round(m.confidence * 100)}%`)
+                                    .join(' · ')}
+                            </div>
+                        )}
+
+                        {result.discovery && (
+                            <div className="font-mono text-xs text-white/70 break-all">
+                                <span className="text-white/40">LOGIN PAGE: </span>
+                                {result.discovery.authUrl}
+                                <span className="text-white/40">
+                                    {` · VIA ${result.discovery.steps.map(s => `${s.action.toUpperCase()} "${s.label}"`).join(' → ') || 'NO STEP'}`}
+                                </span>
+                            </div>
+                        )}
+
+                        {result.annotatedScreenshot && (
+                            <div className="brutal-card overflow-hidden">
+                                <div className="px-6 py-4 border-b-3 border-white bg-[#1a1a1a] text-sm font-bold uppercase tracking-widest text-[#c8ff00]">
+                                    ANNOTATED SCREENSHOT
+                                </div>
+                                <div className="max-h-[600px] overflow-auto custom-scrollbar bg-[#1a1a1a]">
+                                    {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing for next/image to optimize */}
+                                    <img src={result.annotatedScreenshot} alt="Page with numbered boxes around detected components" className="w-full" />
+                                </div>
+                            </div>
+                        )}
+
                         {!result.found && (
                             <p className="text-white/60 text-lg font-medium">No authentication components detected.</p>
                         )}
@@ -308,21 +567,23 @@ export default function Home() {
                                     {/* Header */}
                                     <div className="flex items-start justify-between">
                                         <div className="flex items-center gap-3">
-                                            {component.type === 'traditional' && <div className="p-2 bg-[#c8ff00] text-black"><div className="w-6 h-6 border-2 border-black rotate-45"></div></div>}
-                                            {component.type === 'oauth' && <div className="p-2 bg-[#00ffff] text-black"><div className="w-6 h-6 border-2 border-black rounded-full"></div></div>}
-                                            {component.type === 'passwordless' && <div className="p-2 bg-[#ff2281] text-black"><div className="w-6 h-6 border-2 border-black skew-x-12"></div></div>}
+                                            <div className="p-2 text-black" style={{ backgroundColor: badgeFor(component.type).color }}>
+                                                <div className={`w-6 h-6 border-2 border-black ${badgeFor(component.type).shape}`}></div>
+                                            </div>
 
                                             <div>
                                                 <h3 className="text-xl font-bold uppercase tracking-widest text-white">
-                                                    {component.type === 'traditional' ? 'TRADITIONAL AUTH' :
-                                                        component.type === 'oauth' ? 'OAUTH PROVIDERS' : 'PASSWORDLESS'}
+                                                    {component.annotationIndex !== undefined && `#${component.annotationIndex} `}
+                                                    {badgeFor(component.type).label}
                                                 </h3>
                                                 <div className="h-1 w-full bg-white/20 mt-1"></div>
                                             </div>
                                         </div>
 
                                         <div className="px-4 py-1 border border-white/30 text-xs font-mono text-white/50">
-                                            DETECTED
+                                            {component.confidence !== undefined
+                                                ? `CONFIDENCE ${Math.round(component.confidence * 100)}%`
+                                                : 'DETECTED'}
                                         </div>
                                     </div>
 
@@ -331,31 +592,57 @@ export default function Home() {
                                         <div className="space-y-4">
                                             <div className="text-[#c8ff00] text-sm font-bold uppercase tracking-widest mb-2">DETAILS</div>
 
-                                            {component.type === 'oauth' && component.details.providers && (
-                                                <div className="flex flex-wrap gap-2">
-                                                    {component.details.providers.map(p => (
-                                                        <div key={p} className="px-4 py-2 bg-[#1a1a1a] border border-[#00ffff] text-[#00ffff] text-sm font-bold uppercase brutal-shadow-sm">
-                                                            {p}
+                                            <ComponentDetailChips component={component} />
+
+                                            {component.selector && (
+                                                <div className="space-y-1 font-mono text-xs text-white/70 break-all">
+                                                    <div>
+                                                        <span className="text-white/40">SELECTOR: </span>
+                                                        {component.selector.stable || component.selector.original}
+                                                    </div>
+                                                    <div className="text-white/40">
+                                                        {component.selector.verified
+                                                            ? `UNIQUE · ${component.selector.strategy?.toUpperCase()}`
+                                                            : 'UNVERIFIED'}
+                                                        {` · ORIGINAL MATCHED ${component.selector.matchCount}`}
+                                                    </div>
+                                                    {component.frameUrl && (
+                                                        <div>
+                                                            <span className="text-white/40">IFRAME: </span>
+                                                            {component.frameUrl}
                                                         </div>
-                                                    ))}
-                                                </div>
-                                            )}
-
-                                            {component.type === 'traditional' && component.details.fields && (
-                                                <div className="flex flex-wrap gap-2">
-                                                    {component.details.fields.map(f => (
-                                                        <div key={f} className="px-4 py-2 bg-[#1a1a1a] border border-[#c8ff00] text-[#c8ff00] text-sm font-bold uppercase brutal-shadow-sm">
-                                                            {f} FIELD
+                                                    )}
+                                                    {component.visible !== undefined && (
+                                                        <div>
+                                                            <span className="text-white/40">{component.visible ? 'VISIBLE' : 'HIDDEN'}</span>
+                                                            {component.boundingBox && ` · ${component.boundingBox.width}×${component.boundingBox.height} AT (${component.boundingBox.x}, ${component.boundingBox.y})`}
                                                         </div>
-                                                    ))}
+                                                    )}
                                                 </div>
                                             )}
 
-                                            {component.type === 'passwordless' && component.details.method && (
-                                                <div className="px-4 py-2 bg-[#1a1a1a] border border-[#ff2281] text-[#ff2281] text-sm font-bold uppercase brutal-shadow-sm inline-block">
-                                                    METHOD: {component.details.method}
-                                                </div>
+                                            {component.screenshot && (
+                                                // eslint-disable-next-line @next/next/no-img-element -- data URL, nothing for next/image to optimize
+                                                <img
+                                                    src={component.screenshot}
+                                                    alt={`${badgeFor(component.type).label} element`}
+                                                    className="max-w-full max-h-48 border border-white/20"
+                                                />
                                             )}
+
+                                            <AuditFindings
+                                                title="SECURITY"
+                                                findings={component.security?.map(f => ({ ...f, level: f.severity, color: SEVERITY_COLORS[f.severity] }))}
+                                            />
+                                            <AuditFindings
+                                                title="ACCESSIBILITY"
+                                                findings={component.accessibility?.map(f => ({
+                                                    ...f,
+                                                    level: f.impact,
+                                                    color: IMPACT_COLORS[f.impact],
+                                                    message: f.wcag ? `${f.message} (WCAG ${f.wcag})` : f.message,
+                                                }))}
+                                            />
                                         </div>
 
                                         {/* Snippet Preview */}
@@ -413,7 +700,7 @@ export default function Home() {
                                 </div>
 
                                 {/* Preview Card */}
-                                {/* <div className="brutal-card-accent overflow-hidden flex flex-col h-[500px] animate-slide-in-left" style={{ animationDelay: '0.1s' }}>
+                                <div className="brutal-card-accent overflow-hidden flex flex-col h-[500px] animate-slide-in-left" style={{ animationDelay: '0.1s' }}>
                                     <div className="px-6 py-4 border-b-3 border-[#c8ff00] bg-[#1a1a1a] flex items-center justify-between">
                                         <span className="text-sm font-bold uppercase tracking-widest text-[#c8ff00]">
                                             ISOLATED PREVIEW
@@ -424,12 +711,27 @@ export default function Home() {
                                             <div className="w-4 h-4 bg-[#00ffff]"></div>
                                         </div>
                                     </div>
-                                    <div className="flex-1 relative bg-white">
-                                        <div className="absolute inset-0 overflow-auto p-8 flex items-center justify-center text-black">
-                                            <div className="w-full max-w-sm" dangerouslySetInnerHTML={{ __html: combinedHtml }} />
-                                        </div>
+                                    <div className="flex-1 overflow-auto custom-scrollbar bg-[#1a1a1a] p-4 space-y-4">
+                                        {previews.length === 0 && (
+                                            <p className="text-white/60 text-sm font-medium">No preview available for these components.</p>
+                                        )}
+                                        {/* Previews are sanitized server-side; an empty sandbox also blocks scripts, forms and navigation */}
+                                        {previews.map(({ type, preview }, idx) => (
+                                            <div key={idx} className="space-y-1">
+                                                <div className="text-xs font-bold uppercase tracking-widest" style={{ color: badgeFor(type).color }}>
+                                                    {badgeFor(type).label}
+                                                </div>
+                                                <iframe
+                                                    title={`${badgeFor(type).label} preview`}
+                                                    srcDoc={preview}
+                                                    sandbox=""
+                                                    referrerPolicy="no-referrer"
+                                                    className="w-full h-64 bg-white border border-white/20"
+                                                />
+                                            </div>
+                                        ))}
                                     </div>
-                                </div> */}
+                                </div>
                             </div>
                         )}
                     </div>
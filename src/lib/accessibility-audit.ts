@@ -0,0 +1,286 @@
+/**
+ * Accessibility Audit of Auth Components
+ *
+ * Runs in the live page against each detected component's element: labels
+ * and accessible names, icon-only buttons, placeholder-as-label, focus
+ * order, submit button contrast and error-message association. Needs
+ * computed styles and layout, so it cannot run on the scraped HTML.
+ */
+
+import { Frame, Page } from 'playwright';
+import { logger } from './logger';
+import type { AccessibilityCheckId, AccessibilityFinding, AccessibilityImpact, AuthComponent } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+interface RawFinding {
+    id: AccessibilityCheckId;
+    impact: AccessibilityImpact;
+    message: string;
+    element?: string;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+const CONFIG = {
+    MAX_COMPONENTS: 12,
+    TIMEOUTS: {
+        EVALUATE: 3000,
+    },
+} as const;
+
+const WCAG: Record<AccessibilityCheckId, string> = {
+    'missing-label': '1.3.1, 4.1.2',
+    'placeholder-as-label': '3.3.2',
+    'missing-accessible-name': '4.1.2',
+    'icon-only-button': '1.1.1, 4.1.2',
+    'positive-tabindex': '2.4.3',
+    'focus-order': '2.4.3',
+    'not-focusable': '2.1.1',
+    'low-contrast-submit': '1.4.3',
+    'missing-error-association': '3.3.1',
+};
+
+/*============================================================================*
+ * AUDIT
+ *============================================================================*/
+
+/**
+ * Audit each component whose selector still resolves on `page` (in its
+ * frame, when it has one) and return the components with `accessibility`
+ * filled in. Components that cannot be resolved pass through unchanged.
+ */
+export async function auditAccessibility(
+    page: Page,
+    components: AuthComponent[],
+    requestId: string
+): Promise<AuthComponent[]> {
+    const audited: AuthComponent[] = [];
+
+    for (const [index, comp] of components.entries()) {
+        if (index >= CONFIG.MAX_COMPONENTS) {
+            audited.push(comp);
+            continue;
+        }
+        const findings = await auditComponent(page, comp, requestId);
+        audited.push(findings ? { ...comp, accessibility: findings } : comp);
+    }
+
+    const findings = audited.flatMap(c => c.accessibility || []);
+    logger.info(requestId, 'A11Y_AUDIT', {
+        components: audited.filter(c => c.accessibility).length,
+        findings: findings.length,
+        serious: findings.filter(f => f.impact === 'critical' || f.impact === 'serious').length,
+        ids: [...new Set(findings.map(f => f.id))].join(',') || 'none',
+    });
+
+    return audited;
+}
+
+async function auditComponent(page: Page, comp: AuthComponent, requestId: string): Promise<AccessibilityFinding[] | undefined> {
+    const selector = comp.selector?.stable || comp.details.playwrightSelector;
+    const frame = frameFor(page, comp.frameUrl);
+    if (!selector || !frame) return undefined;
+
+    try {
+        const element = frame.locator(selector).first();
+        if (await element.count() === 0) return undefined;
+
+        const raw = await element.evaluate(auditElement, comp.type === 'oauth', { timeout: CONFIG.TIMEOUTS.EVALUATE });
+        return raw.map(finding => ({ ...finding, wcag: WCAG[finding.id] }));
+    } catch (error) {
+        logger.warn(requestId, 'A11Y_AUDIT_FAILED', error instanceof Error ? error.message : String(error), { type: comp.type, selector });
+        return undefined;
+    }
+}
+
+/**
+ * Runs in the page. Kept self-contained because Playwright serializes it.
+ * `root` is the component element; `isSocial` marks provider buttons.
+ */
+const auditElement = (root: Element, isSocial: boolean): RawFinding[] => {
+    const findings: RawFinding[] = [];
+    const doc = root.ownerDocument;
+
+    const describe = (el: Element): string => {
+        const tag = el.tagName.toLowerCase();
+        if (el.id) return `${tag}#${el.id}`;
+        const name = el.getAttribute('name');
+        if (name) return `${tag}[name="${name}"]`;
+        const text = (el.textContent || '').trim().replace(/\s+/g, ' ').slice(0, 30);
+        return text ? `${tag} "${text}"` : tag;
+    };
+
+    const isVisible = (el: Element): boolean => {
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+    };
+
+    const labelledBy = (el: Element): string =>
+        (el.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+            .map(id => doc.getElementById(id)?.textContent || '').join(' ').trim();
+
+    const labelText = (el: Element): string => {
+        const id = el.getAttribute('id');
+        const explicit = id ? Array.from(doc.querySelectorAll('label')).filter(l => l.htmlFor === id) : [];
+        const wrapping = el.closest('label');
+        return [...explicit, ...(wrapping ? [wrapping] : [])].map(l => l.textContent || '').join(' ').trim();
+    };
+
+    const accessibleName = (el: Element): string =>
+        (el.getAttribute('aria-label') || '').trim() ||
+        labelledBy(el) ||
+        (el.getAttribute('title') || '').trim();
+
+    const within = (selector: string): Element[] =>
+        [...(root.matches(selector) ? [root] : []), ...Array.from(root.querySelectorAll(selector))].filter(isVisible);
+
+    // ── Labels and placeholder-as-label ─────────────────────────────────────
+    const fields = within('input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="image"]):not([type="reset"]), select, textarea');
+    for (const field of fields) {
+        if (accessibleName(field) || labelText(field)) continue;
+        const placeholder = field.getAttribute('placeholder');
+        findings.push(placeholder
+            ? { id: 'placeholder-as-label', impact: 'serious', message: `Field relies on placeholder "${placeholder.slice(0, 40)}" as its only label; it disappears while typing`, element: describe(field) }
+            : { id: 'missing-label', impact: 'critical', message: 'Form field has no label, aria-label or aria-labelledby', element: describe(field) });
+    }
+
+    // ── Accessible names for buttons and links ──────────────────────────────
+    const controls = within('button, a[href], [role="button"], [role="link"], input[type="submit"], input[type="button"], input[type="image"]');
+    for (const control of controls) {
+        const visibleText = (control.textContent || '').trim() || (control as HTMLInputElement).value?.trim() || '';
+        const imageAlt = Array.from(control.querySelectorAll('img[alt], svg title'))
+            .map(img => (img.getAttribute('alt') ?? img.textContent ?? '').trim()).join(' ').trim() ||
+            (control.getAttribute('alt') || '').trim();
+        if (visibleText || accessibleName(control) || imageAlt) continue;
+
+        const hasIcon = control.querySelector('img, svg, i, [class*="icon" i]') !== null || control.matches('input[type="image"]');
+        findings.push(hasIcon && (isSocial || control.closest('[data-provider]'))
+            ? { id: 'icon-only-button', impact: 'serious', message: 'Social sign-in button shows only a logo and has no text or accessible name', element: describe(control) }
+            : { id: 'missing-accessible-name', impact: 'critical', message: 'Control has no text, aria-label, title or image alt', element: describe(control) });
+    }
+
+    // ── Focus order ─────────────────────────────────────────────────────────
+    for (const el of within('[tabindex]')) {
+        if (Number(el.getAttribute('tabindex')) > 0) {
+            findings.push({ id: 'positive-tabindex', impact: 'serious', message: `tabindex="${el.getAttribute('tabindex')}" overrides the natural focus order`, element: describe(el) });
+        }
+    }
+
+    for (const el of within('[role="button"], [role="link"], [onclick]')) {
+        const native = el.matches('a[href], button, input, select, textarea, summary');
+        if (!native && !el.hasAttribute('tabindex')) {
+            findings.push({ id: 'not-focusable', impact: 'serious', message: 'Clickable element cannot be reached with the keyboard (no tabindex)', element: describe(el) });
+        }
+    }
+
+    const focusable = within('a[href], button:not([disabled]), input:not([type="hidden"]):not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]')
+        .filter(el => el.getAttribute('tabindex') !== '-1');
+    const tabOrder = [
+        ...focusable.filter(el => Number(el.getAttribute('tabindex')) > 0)
+            .sort((a, b) => Number(a.getAttribute('tabindex')) - Number(b.getAttribute('tabindex'))),
+        ...focusable.filter(el => !(Number(el.getAttribute('tabindex')) > 0)),
+    ];
+    // Rows are bucketed so controls on one line with slightly different tops keep left-to-right order
+    const visualOrder = [...focusable].sort((a, b) => {
+        const ra = a.getBoundingClientRect();
+        const rb = b.getBoundingClientRect();
+        return Math.round(ra.top / 16) - Math.round(rb.top / 16) || ra.left - rb.left;
+    });
+    const firstMismatch = tabOrder.findIndex((el, i) => el !== visualOrder[i]);
+    if (firstMismatch >= 0) {
+        findings.push({
+            id: 'focus-order',
+            impact: 'moderate',
+            message: `Keyboard focus reaches ${describe(tabOrder[firstMismatch])} where the layout shows ${describe(visualOrder[firstMismatch])}`,
+            element: describe(tabOrder[firstMismatch]),
+        });
+    }
+
+    // ── Primary submit button contrast ──────────────────────────────────────
+    const submit = within('button[type="submit"], input[type="submit"]')[0] || within('button:not([type])')[0];
+    if (submit) {
+        const parse = (color: string): [number, number, number, number] | undefined => {
+            const m = color.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?/);
+            if (!m) return undefined;
+            const alpha = m[4] === undefined ? 1 : m[4].endsWith('%') ? parseFloat(m[4]) / 100 : parseFloat(m[4]);
+            return [Number(m[1]), Number(m[2]), Number(m[3]), alpha];
+        };
+        const blend = (top: [number, number, number, number], bottom: [number, number, number]): [number, number, number] =>
+            [0, 1, 2].map(i => top[i] * top[3] + bottom[i] * (1 - top[3])) as [number, number, number];
+        const luminance = ([r, g, b]: [number, number, number]) => {
+            const [R, G, B] = [r, g, b].map(v => {
+                const c = v / 255;
+                return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+            });
+            return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+        };
+
+        // Composite background layers from the button up; gradients and images are not measurable
+        const layers: [number, number, number, number][] = [];
+        let measurable = true;
+        for (let el: Element | null = submit; el; el = el.parentElement) {
+            const style = getComputedStyle(el);
+            if (style.backgroundImage && style.backgroundImage !== 'none') {
+                measurable = false;
+                break;
+            }
+            const bg = parse(style.backgroundColor);
+            if (bg && bg[3] > 0) layers.push(bg);
+            if (bg && bg[3] >= 1) break;
+        }
+
+        const fg = parse(getComputedStyle(submit).color);
+        if (measurable && fg) {
+            const background = layers.reverse().reduce<[number, number, number]>((acc, layer) => blend(layer, acc), [255, 255, 255]);
+            const text = blend(fg, background);
+            const [l1, l2] = [luminance(text), luminance(background)].sort((a, b) => b - a);
+            const ratio = (l1 + 0.05) / (l2 + 0.05);
+
+            const style = getComputedStyle(submit);
+            const size = parseFloat(style.fontSize);
+            const large = size >= 24 || (size >= 18.66 && Number(style.fontWeight) >= 700);
+            const required = large ? 3 : 4.5;
+            if (ratio < required) {
+                findings.push({
+                    id: 'low-contrast-submit',
+                    impact: 'serious',
+                    message: `Submit button text contrast is ${ratio.toFixed(2)}:1 (needs ${required}:1)`,
+                    element: describe(submit),
+                });
+            }
+        }
+    }
+
+    // ── Error message association ───────────────────────────────────────────
+    const referenced = new Set(fields.flatMap(f =>
+        `${f.getAttribute('aria-describedby') || ''} ${f.getAttribute('aria-errormessage') || ''}`.split(/\s+/).filter(Boolean)));
+    for (const field of fields) {
+        if (field.getAttribute('aria-invalid') === 'true' && !field.getAttribute('aria-describedby') && !field.getAttribute('aria-errormessage')) {
+            findings.push({ id: 'missing-error-association', impact: 'serious', message: 'Invalid field does not point to its error message (aria-describedby or aria-errormessage)', element: describe(field) });
+        }
+    }
+    const errors = within('[role="alert"], [class*="error" i], [id*="error" i]').filter(el => (el.textContent || '').trim());
+    for (const error of errors) {
+        const live = error.closest('[role="alert"], [aria-live]');
+        if (fields.length > 0 && !live && !(error.id && referenced.has(error.id))) {
+            findings.push({ id: 'missing-error-association', impact: 'moderate', message: 'Error text is neither referenced by a field nor announced in a live region', element: describe(error) });
+        }
+    }
+
+    return findings;
+};
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+function frameFor(page: Page, frameUrl: string | undefined): Frame | undefined {
+    if (!frameUrl) return page.mainFrame();
+    return page.frames().find(frame => frame.url() === frameUrl);
+}
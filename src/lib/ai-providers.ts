@@ -0,0 +1,305 @@
+/**
+ * AI Provider Layer
+ *
+ * Vendor-neutral interface for the vision/text models used by the detector.
+ * Providers are selected through an explicit config object or env vars.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { AIDetectionResponse } from '@/lib/types/auth.types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type AIProviderName = 'gemini' | 'openai' | 'azure-openai' | 'anthropic' | 'ollama' | 'mock';
+
+export interface AIGenerateRequest {
+    prompt: string;
+    /** Base64 JPEG, with or without a `data:` URL prefix */
+    screenshot?: string;
+}
+
+export interface AIProvider {
+    readonly name: AIProviderName;
+    readonly model: string;
+    generate(request: AIGenerateRequest): Promise<string>;
+}
+
+export interface AIProviderConfig {
+    provider: AIProviderName;
+    model?: string;
+    apiKey?: string;
+    /** Endpoint root (OpenAI-compatible servers, Azure resource, Ollama host) */
+    baseUrl?: string;
+    /** Azure OpenAI `api-version` query parameter */
+    apiVersion?: string;
+    /** Raw text returned by the mock provider */
+    mockResponse?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PROVIDER_NAMES: AIProviderName[] = ['gemini', 'openai', 'azure-openai', 'anthropic', 'ollama', 'mock'];
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+    gemini: 'gemini-3-flash-preview',
+    openai: 'gpt-4o-mini',
+    'azure-openai': 'gpt-4o-mini',
+    anthropic: 'claude-sonnet-4-5',
+    ollama: 'llama3.2-vision',
+    mock: 'mock-detector',
+};
+
+const DEFAULTS = {
+    openaiBaseUrl: 'https://api.openai.com/v1',
+    anthropicBaseUrl: 'https://api.anthropic.com/v1',
+    anthropicVersion: '2023-06-01',
+    azureApiVersion: '2024-06-01',
+    ollamaBaseUrl: 'http://localhost:11434',
+    maxOutputTokens: 4096,
+};
+
+const MOCK_RESPONSE: AIDetectionResponse = {
+    found: true,
+    components: [
+        { type: 'traditional', details: { fields: ['email', 'password'], playwrightSelector: 'form:has(input[type="password"])' } },
+        { type: 'oauth', details: { providers: ['google'], playwrightSelector: 'button:has-text("Google")' } },
+    ],
+};
+
+/**
+ * Resolve provider config from env vars.
+ *
+ * `AI_PROVIDER` picks the provider explicitly; without it, a configured
+ * `GEMINI_API_KEY` keeps the original Gemini behaviour. Returns null when no
+ * provider is configured.
+ */
+export const resolveAIProviderConfig = (env: NodeJS.ProcessEnv = process.env): AIProviderConfig | null => {
+    const requested = env['AI_PROVIDER']?.trim().toLowerCase();
+
+    if (requested && !PROVIDER_NAMES.includes(requested as AIProviderName)) {
+        throw new Error(`Unknown AI_PROVIDER "${requested}" (expected one of ${PROVIDER_NAMES.join(', ')})`);
+    }
+
+    const provider = (requested as AIProviderName | undefined) ?? (env['GEMINI_API_KEY'] ? 'gemini' : undefined);
+    if (!provider) return null;
+
+    const model = env['AI_MODEL'] || undefined;
+
+    switch (provider) {
+        case 'gemini':
+            return { provider, model, apiKey: env['GEMINI_API_KEY'] };
+        case 'openai':
+            return { provider, model, apiKey: env['OPENAI_API_KEY'], baseUrl: env['AI_BASE_URL'] || env['OPENAI_BASE_URL'] };
+        case 'azure-openai':
+            return {
+                provider,
+                model: model || env['AZURE_OPENAI_DEPLOYMENT'],
+                apiKey: env['AZURE_OPENAI_API_KEY'],
+                baseUrl: env['AI_BASE_URL'] || env['AZURE_OPENAI_ENDPOINT'],
+                apiVersion: env['AZURE_OPENAI_API_VERSION'],
+            };
+        case 'anthropic':
+            return { provider, model, apiKey: env['ANTHROPIC_API_KEY'], baseUrl: env['AI_BASE_URL'] };
+        case 'ollama':
+            return { provider, model, baseUrl: env['AI_BASE_URL'] || env['OLLAMA_BASE_URL'] };
+        case 'mock':
+            return { provider, model, mockResponse: env['MOCK_AI_RESPONSE'] };
+    }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a provider from config. Throws when required credentials are missing.
+ */
+export const createAIProvider = (config: AIProviderConfig): AIProvider => {
+    const model = config.model || DEFAULT_MODELS[config.provider];
+
+    switch (config.provider) {
+        case 'gemini':
+            return new GeminiProvider(model, requireSetting(config.apiKey, 'GEMINI_API_KEY'));
+        case 'openai':
+            // Self-hosted OpenAI-compatible servers usually run without a key
+            return config.baseUrl
+                ? new OpenAIProvider(model, config.apiKey, config.baseUrl)
+                : new OpenAIProvider(model, requireSetting(config.apiKey, 'OPENAI_API_KEY'), DEFAULTS.openaiBaseUrl);
+        case 'azure-openai':
+            return new AzureOpenAIProvider(
+                model,
+                requireSetting(config.apiKey, 'AZURE_OPENAI_API_KEY'),
+                requireSetting(config.baseUrl, 'AZURE_OPENAI_ENDPOINT'),
+                config.apiVersion || DEFAULTS.azureApiVersion
+            );
+        case 'anthropic':
+            return new AnthropicProvider(model, requireSetting(config.apiKey, 'ANTHROPIC_API_KEY'), config.baseUrl || DEFAULTS.anthropicBaseUrl);
+        case 'ollama':
+            return new OllamaProvider(model, config.baseUrl || DEFAULTS.ollamaBaseUrl);
+        case 'mock':
+            return new MockProvider(model, config.mockResponse);
+    }
+};
+
+/**
+ * Provider configured through env vars, or null when AI detection is disabled.
+ */
+export const getDefaultAIProvider = (): AIProvider | null => {
+    const config = resolveAIProviderConfig();
+    return config ? createAIProvider(config) : null;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Providers
+// ─────────────────────────────────────────────────────────────────────────────
+
+class GeminiProvider implements AIProvider {
+    readonly name: AIProviderName = 'gemini';
+    private client: GoogleGenerativeAI;
+
+    constructor(readonly model: string, apiKey: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generate({ prompt, screenshot }: AIGenerateRequest): Promise<string> {
+        const model = this.client.getGenerativeModel({ model: this.model });
+        const parts = screenshot
+            ? [{ inlineData: { mimeType: 'image/jpeg', data: stripDataUrl(screenshot) } }, { text: prompt }]
+            : [{ text: prompt }];
+
+        const result = await model.generateContent(parts);
+        return result.response.text();
+    }
+}
+
+/**
+ * OpenAI chat completions. Also covers OpenAI-compatible servers such as
+ * llama.cpp, vLLM or LM Studio through `baseUrl`.
+ */
+class OpenAIProvider implements AIProvider {
+    readonly name: AIProviderName = 'openai';
+
+    constructor(readonly model: string, private apiKey: string | undefined, private baseUrl: string) { }
+
+    async generate(request: AIGenerateRequest): Promise<string> {
+        const data = await postJSON<ChatCompletionResponse>(
+            `${trimSlash(this.baseUrl)}/chat/completions`,
+            this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+            { model: this.model, messages: buildChatMessages(request), max_tokens: DEFAULTS.maxOutputTokens },
+            this.name
+        );
+        return data.choices?.[0]?.message?.content ?? '';
+    }
+}
+
+class AzureOpenAIProvider implements AIProvider {
+    readonly name: AIProviderName = 'azure-openai';
+
+    constructor(readonly model: string, private apiKey: string, private endpoint: string, private apiVersion: string) { }
+
+    async generate(request: AIGenerateRequest): Promise<string> {
+        const url = `${trimSlash(this.endpoint)}/openai/deployments/${encodeURIComponent(this.model)}/chat/completions?api-version=${this.apiVersion}`;
+        const data = await postJSON<ChatCompletionResponse>(
+            url,
+            { 'api-key': this.apiKey },
+            { messages: buildChatMessages(request), max_tokens: DEFAULTS.maxOutputTokens },
+            this.name
+        );
+        return data.choices?.[0]?.message?.content ?? '';
+    }
+}
+
+class AnthropicProvider implements AIProvider {
+    readonly name: AIProviderName = 'anthropic';
+
+    constructor(readonly model: string, private apiKey: string, private baseUrl: string) { }
+
+    async generate({ prompt, screenshot }: AIGenerateRequest): Promise<string> {
+        const content = [
+            ...(screenshot ? [{ type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: stripDataUrl(screenshot) } }] : []),
+            { type: 'text', text: prompt },
+        ];
+
+        const data = await postJSON<{ content?: Array<{ type: string; text?: string }> }>(
+            `${trimSlash(this.baseUrl)}/messages`,
+            { 'x-api-key': this.apiKey, 'anthropic-version': DEFAULTS.anthropicVersion },
+            { model: this.model, max_tokens: DEFAULTS.maxOutputTokens, messages: [{ role: 'user', content }] },
+            this.name
+        );
+        return (data.content || []).filter(b => b.type === 'text').map(b => b.text || '').join('');
+    }
+}
+
+class OllamaProvider implements AIProvider {
+    readonly name: AIProviderName = 'ollama';
+
+    constructor(readonly model: string, private baseUrl: string) { }
+
+    async generate({ prompt, screenshot }: AIGenerateRequest): Promise<string> {
+        const data = await postJSON<{ response?: string }>(
+            `${trimSlash(this.baseUrl)}/api/generate`,
+            {},
+            { model: this.model, prompt, images: screenshot ? [stripDataUrl(screenshot)] : undefined, stream: false, format: 'json' },
+            this.name
+        );
+        return data.response ?? '';
+    }
+}
+
+/**
+ * Deterministic offline provider. Returns the configured text verbatim, or a
+ * canned `AIDetectionResponse` so the pipeline can run without network access.
+ */
+class MockProvider implements AIProvider {
+    readonly name: AIProviderName = 'mock';
+
+    constructor(readonly model: string, private response?: string) { }
+
+    async generate(): Promise<string> {
+        return this.response ?? JSON.stringify(MOCK_RESPONSE);
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ChatCompletionResponse {
+    choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+const buildChatMessages = ({ prompt, screenshot }: AIGenerateRequest) => [{
+    role: 'user',
+    content: [
+        { type: 'text', text: prompt },
+        ...(screenshot ? [{ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${stripDataUrl(screenshot)}` } }] : []),
+    ],
+}];
+
+const postJSON = async <T>(url: string, headers: Record<string, string>, body: unknown, provider: AIProviderName): Promise<T> => {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+    });
+
+    if (!res.ok) {
+        const detail = await res.text().catch(() => '');
+        throw new Error(`${provider} request failed: HTTP ${res.status} ${detail.slice(0, 200)}`);
+    }
+
+    return res.json() as Promise<T>;
+};
+
+const requireSetting = (value: string | undefined, name: string): string => {
+    if (!value) throw new Error(`${name} is required for the selected AI provider`);
+    return value;
+};
+
+const stripDataUrl = (image: string): string => image.replace(/^data:image\/\w+;base64,/, '');
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
@@ -0,0 +1,242 @@
+/**
+ * AI Response Schema
+ *
+ * Strict validation for model output. Invalid components are dropped
+ * individually and every problem is reported so the model can be asked to
+ * repair its answer.
+ */
+
+import { AUTH_COMPONENT_TYPES, type AIDetectionResponse, type AuthIntent } from '@/lib/types/auth.types';
+import { canonicalProviderId } from './identity-providers';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schema
+// ─────────────────────────────────────────────────────────────────────────────
+
+type AIComponent = AIDetectionResponse['components'][number];
+
+export interface SchemaIssue {
+    /** JSON path of the offending value, e.g. `components[1].details.providers` */
+    path: string;
+    message: string;
+}
+
+export interface AIValidationResult {
+    response: AIDetectionResponse;
+    issues: SchemaIssue[];
+    droppedComponents: number;
+}
+
+const COMPONENT_TYPES: readonly AIComponent['type'][] = AUTH_COMPONENT_TYPES;
+
+const INTENTS: AuthIntent[] = ['login', 'signup', 'both'];
+
+const LIMITS = {
+    maxComponents: 20,
+    maxListItems: 20,
+    maxSelector: 500,
+    maxText: 300,
+};
+
+const PROVIDER_NAME = /^[a-z0-9][a-z0-9 ._+-]{0,40}$/i;
+
+/** Human-readable schema, shared with the repair prompt */
+export const AI_RESPONSE_SCHEMA = `{
+  "found": boolean,
+  "components": [
+    {
+      "type": ${COMPONENT_TYPES.map(t => `"${t}"`).join(' | ')},
+      "details": {
+        "fields"?: string[],              // input kinds, e.g. "email", "password"
+        "providers"?: string[],           // required and non-empty for "oauth"
+        "method"?: string,                // required for "passwordless", e.g. "passkey", "magic-link", "otp"
+        "kind"?: string,                  // sub-kind, e.g. "saml" (sso), "totp" (mfa), "password-reset" (recovery), "recaptcha" (captcha)
+        "intent"?: ${INTENTS.map(i => `"${i}"`).join(' | ')},
+        "playwrightSelector"?: string,    // single-line Playwright selector, max ${LIMITS.maxSelector} chars
+        "extractionNote"?: string
+      }
+    }
+  ]
+}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Extract and parse the JSON object from raw model text. Tolerates code
+ * fences, comments and trailing commas; throws when nothing parseable remains.
+ */
+export const parseAIJSON = (text: string): unknown => {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error('No JSON in AI response');
+
+    const cleaned = jsonMatch[0].replace(/,(\s*[}\]])/g, '$1').replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+
+    try {
+        return JSON.parse(cleaned);
+    } catch (e) {
+        throw new Error(`JSON parse failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const validateAIResponse = (data: unknown): AIValidationResult => {
+    const issues: SchemaIssue[] = [];
+
+    if (!isRecord(data)) {
+        return { response: { found: false, components: [] }, issues: [{ path: '$', message: 'expected a JSON object' }], droppedComponents: 0 };
+    }
+
+    if (typeof data.found !== 'boolean') {
+        issues.push({ path: 'found', message: 'expected boolean' });
+    }
+
+    let rawComponents: unknown[] = [];
+    if (Array.isArray(data.components)) {
+        rawComponents = data.components;
+    } else {
+        issues.push({ path: 'components', message: 'expected an array' });
+    }
+
+    if (rawComponents.length > LIMITS.maxComponents) {
+        issues.push({ path: 'components', message: `expected at most ${LIMITS.maxComponents} components` });
+        rawComponents = rawComponents.slice(0, LIMITS.maxComponents);
+    }
+
+    const components: AIComponent[] = [];
+    rawComponents.forEach((raw, i) => {
+        const componentIssues = validateComponent(raw, `components[${i}]`);
+        if (componentIssues.length === 0) {
+            components.push(normalizeComponent(raw as AIComponent));
+        } else {
+            issues.push(...componentIssues);
+        }
+    });
+
+    const found = typeof data.found === 'boolean' ? data.found : components.length > 0;
+
+    return { response: { found, components }, issues, droppedComponents: rawComponents.length - components.length };
+};
+
+const validateComponent = (raw: unknown, path: string): SchemaIssue[] => {
+    const issues: SchemaIssue[] = [];
+
+    if (!isRecord(raw)) return [{ path, message: 'expected an object' }];
+
+    if (!COMPONENT_TYPES.includes(raw.type as AIComponent['type'])) {
+        issues.push({ path: `${path}.type`, message: `expected one of ${COMPONENT_TYPES.join(', ')}, got ${JSON.stringify(raw.type)}` });
+    }
+
+    const details = raw.details;
+    if (!isRecord(details)) {
+        issues.push({ path: `${path}.details`, message: 'expected an object' });
+        return issues;
+    }
+
+    issues.push(...validateStringList(details.fields, `${path}.details.fields`));
+    issues.push(...validateStringList(details.providers, `${path}.details.providers`, PROVIDER_NAME));
+
+    if (raw.type === 'oauth' && (!Array.isArray(details.providers) || details.providers.length === 0)) {
+        issues.push({ path: `${path}.details.providers`, message: 'required for oauth components' });
+    }
+
+    if (details.method !== undefined && !isShortText(details.method)) {
+        issues.push({ path: `${path}.details.method`, message: 'expected a non-empty string' });
+    }
+    if (raw.type === 'passwordless' && details.method === undefined) {
+        issues.push({ path: `${path}.details.method`, message: 'required for passwordless components' });
+    }
+
+    if (details.kind !== undefined && !isShortText(details.kind)) {
+        issues.push({ path: `${path}.details.kind`, message: 'expected a non-empty string' });
+    }
+    if (details.intent !== undefined && !INTENTS.includes(details.intent as AuthIntent)) {
+        issues.push({ path: `${path}.details.intent`, message: `expected one of ${INTENTS.join(', ')}` });
+    }
+
+    if (details.extractionNote !== undefined && typeof details.extractionNote !== 'string') {
+        issues.push({ path: `${path}.details.extractionNote`, message: 'expected string' });
+    }
+
+    if (details.playwrightSelector !== undefined) {
+        const problem = checkSelector(details.playwrightSelector);
+        if (problem) issues.push({ path: `${path}.details.playwrightSelector`, message: problem });
+    }
+
+    return issues;
+};
+
+const validateStringList = (value: unknown, path: string, itemPattern?: RegExp): SchemaIssue[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) return [{ path, message: 'expected an array of strings' }];
+    if (value.length > LIMITS.maxListItems) return [{ path, message: `expected at most ${LIMITS.maxListItems} items` }];
+
+    return value.flatMap((item, i): SchemaIssue[] => {
+        if (!isShortText(item)) return [{ path: `${path}[${i}]`, message: 'expected a non-empty string' }];
+        if (itemPattern && !itemPattern.test(item)) return [{ path: `${path}[${i}]`, message: `invalid value ${JSON.stringify(item)}` }];
+        return [];
+    });
+};
+
+/**
+ * Structural sanity checks for a Playwright selector: single line, bounded
+ * length, balanced brackets and quotes. Returns a problem description or null.
+ */
+const checkSelector = (selector: unknown): string | null => {
+    if (typeof selector !== 'string' || selector.trim().length === 0) return 'expected a non-empty string';
+    if (selector.length > LIMITS.maxSelector) return `longer than ${LIMITS.maxSelector} characters`;
+    if (/[\r\n]/.test(selector)) return 'must be a single line';
+
+    const closers: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+    const stack: string[] = [];
+    let quote: string | null = null;
+
+    for (let i = 0; i < selector.length; i++) {
+        const ch = selector[i];
+        if (ch === '\\') { i++; continue; }
+        if (quote) {
+            if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '(' || ch === '[' || ch === '{') stack.push(ch);
+        else if (closers[ch]) {
+            if (stack.pop() !== closers[ch]) return `unbalanced "${ch}"`;
+        }
+    }
+
+    if (quote) return 'unterminated string';
+    if (stack.length > 0) return `unclosed "${stack[stack.length - 1]}"`;
+    return null;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Keep only known detail keys (unknown ones are stripped, not rejected) */
+const normalizeComponent = (comp: AIComponent): AIComponent => {
+    const { fields, providers, method, kind, intent, playwrightSelector, extractionNote } = comp.details;
+    return {
+        type: comp.type,
+        details: {
+            ...(fields && { fields: fields.map(f => f.trim()) }),
+            ...(providers && { providers: providers.map(canonicalProviderId) }),
+            ...(method && { method: method.trim() }),
+            ...(kind && { kind: kind.trim().toLowerCase() }),
+            ...(intent && { intent }),
+            ...(playwrightSelector && { playwrightSelector: playwrightSelector.trim() }),
+            ...(extractionNote && { extractionNote }),
+        },
+    };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isShortText = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0 && value.length <= LIMITS.maxText;
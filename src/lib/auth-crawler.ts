@@ -0,0 +1,637 @@
+/**
+ * Auth Surface Crawler
+ *
+ * Bounded breadth-first crawl of a site from its root, seeded from
+ * sitemap.xml and respecting robots.txt. Pages are fetched as static HTML
+ * (rendered in the browser only when a page has no links, e.g. an SPA
+ * shell) and classified by URL, link text, title and markup. Auth pages
+ * and the pages leading to them form a graph; the auth pages then get a
+ * full browser scan each.
+ */
+
+import * as cheerio from 'cheerio';
+import { logger } from './logger';
+import { browserPool } from './browser-pool';
+import { detectFromDOM } from './dom-detector';
+import { runScan } from './scan';
+import type {
+    AuthComponentType,
+    AuthPageKind,
+    AuthSurfaceEdge,
+    AuthSurfaceEdgeKind,
+    AuthSurfaceMap,
+    AuthSurfaceNode,
+} from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+export interface CrawlOptions {
+    /** Pages fetched, root and sitemap seeds included */
+    maxPages?: number;
+    /** Link hops from the root */
+    maxDepth?: number;
+    /** Auth pages that get a browser scan, shallowest first */
+    maxScans?: number;
+}
+
+interface QueuedPage {
+    url: string;
+    depth: number;
+    parent?: string;
+    via: AuthSurfaceEdgeKind;
+    label?: string;
+}
+
+interface CrawledPage extends QueuedPage {
+    /** Where the page ended up after redirects */
+    finalUrl: string;
+    title?: string;
+    kinds: AuthPageKind[];
+    links: Array<{ url: string; label: string }>;
+}
+
+interface FetchedPage {
+    finalUrl: string;
+    html?: string;
+}
+
+interface RobotsRules {
+    allow: string[];
+    disallow: string[];
+    sitemaps: string[];
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+export const CRAWL_CONFIG = {
+    DEFAULTS: {
+        MAX_PAGES: 40,
+        MAX_DEPTH: 3,
+        MAX_SCANS: 10,
+    },
+    LIMITS: {
+        MAX_PAGES: 150,
+        MAX_DEPTH: 5,
+        MAX_SCANS: 25,
+    },
+} as const;
+
+const CONFIG = {
+    FETCH_CONCURRENCY: 4,
+    SCAN_CONCURRENCY: 2,
+    // Under the route's maxDuration (300s in vercel.json), leaving time to send the response
+    TIME_BUDGET: 270000,
+    // No new page fetches after this, so scans get the rest of the budget
+    FETCH_BUDGET: 90000,
+    // Browser renders are for link-less SPA shells only
+    MAX_RENDERS: 5,
+    MAX_HTML_BYTES: 2 * 1024 * 1024,
+    MAX_LINKS_PER_PAGE: 300,
+    MAX_SITEMAPS: 5,
+    MAX_SITEMAP_SEEDS: 20,
+    ROBOTS_AGENT: 'auth-detector',
+    USER_AGENT: 'Mozilla/5.0 (compatible; auth-detector/2.0; auth surface crawl)',
+    TIMEOUTS: {
+        FETCH: 10000,
+        RENDER: 20000,
+    },
+} as const;
+
+const BUDGET_EXCEEDED = 'Crawl time budget exceeded';
+
+const SKIPPED_EXTENSIONS = /\.(?:pdf|zip|gz|tar|rar|7z|dmg|exe|msi|apk|jpe?g|png|gif|webp|svg|ico|mp[34]|mov|avi|webm|woff2?|ttf|css|js|json|xml|rss|txt|csv|docx?|xlsx?|pptx?)$/i;
+
+// Following these would end a session or mutate state
+const SKIPPED_LINKS = /log\s*-?\s*out|sign\s*-?\s*out|logoff|unsubscribe|delete/i;
+
+const KIND_PATTERNS: Record<AuthPageKind, { path: RegExp; text: RegExp }> = {
+    'login': {
+        path: /\/(?:log-?in|sign-?in|sign_in|signon|sessions?\/new|users\/sign_in|auth(?:enticate)?)(?:[/?#.]|$)/i,
+        text: /\b(?:sign|log)\s*-?\s*in\b|\blogin\b/i,
+    },
+    'signup': {
+        path: /\/(?:sign-?up|sign_up|register|registration|join|create-?account|users\/new|enroll)(?:[/?#.]|$)/i,
+        text: /\bsign\s*-?\s*up\b|\bregister\b|create\s+(?:an?\s+)?account|\bjoin (?:now|free|us)\b/i,
+    },
+    'password-reset': {
+        path: /\/(?:forgot|reset|lost)[-_]?(?:your[-_])?password|\/password\/(?:new|reset|forgot)|\/forgot(?:[/?#.]|$)/i,
+        text: /forgot(?:ten)? (?:your )?password|reset (?:your )?password/i,
+    },
+    'sso': {
+        path: /\/(?:sso|saml|oidc|enterprise[-_]?login|login\/sso)(?:[/?#.]|$)/i,
+        text: /\bsso\b|single sign[-\s]?on|enterprise (?:login|sign[-\s]?in)/i,
+    },
+    'mfa': {
+        path: /\/(?:2fa|two[-_]factor|mfa|otp|totp|authenticator|security[-_]keys?|webauthn)(?:[/?#.]|$)/i,
+        text: /two[-\s]?factor|\b2fa\b|multi[-\s]?factor|authenticator app|security key/i,
+    },
+    'recovery': {
+        path: /\/(?:recover|recovery|account[-_]recovery|unlock|trouble)(?:[/?#.]|$)/i,
+        text: /recover (?:your )?account|account recovery|trouble (?:signing|logging) in|can'?t (?:sign|log) in/i,
+    },
+};
+
+// Markup evidence; recovery links sit on every login page, so they don't make a page a recovery page
+const COMPONENT_KINDS: Partial<Record<AuthComponentType, AuthPageKind>> = {
+    traditional: 'login',
+    passwordless: 'login',
+    registration: 'signup',
+    sso: 'sso',
+    mfa: 'mfa',
+};
+
+/*============================================================================*
+ * CRAWL
+ *============================================================================*/
+
+/**
+ * Map the auth surface of the site at `rootUrl`. Only same-site pages (the
+ * root host and its subdomains) are followed. Never throws for individual
+ * pages; unreachable pages are simply left out.
+ */
+export async function crawlAuthSurface(rootUrl: string, requestId: string, options: CrawlOptions = {}): Promise<AuthSurfaceMap> {
+    const startTime = Date.now();
+    const maxPages = options.maxPages ?? CRAWL_CONFIG.DEFAULTS.MAX_PAGES;
+    const maxDepth = options.maxDepth ?? CRAWL_CONFIG.DEFAULTS.MAX_DEPTH;
+    const maxScans = options.maxScans ?? CRAWL_CONFIG.DEFAULTS.MAX_SCANS;
+
+    const root = new URL(rootUrl);
+    const siteHost = root.hostname.replace(/^www\./, '');
+    const robots = new RobotsCache();
+    const renders = { count: 0 };
+    const deadline = AbortSignal.timeout(CONFIG.TIME_BUDGET);
+    const fetchUntil = startTime + CONFIG.FETCH_BUDGET;
+    let fetchCutShort = false;
+    let blockedByRobots = 0;
+
+    logger.info(requestId, 'CRAWL_START', { root: root.href, maxPages, maxDepth, maxScans });
+
+    const sitemapSeeds = await readSitemapSeeds(root, siteHost, await robots.rulesFor(root.origin), requestId);
+
+    const seen = new Set<string>([normalize(root.href)]);
+    const landed = new Set<string>();
+    const crawled: CrawledPage[] = [];
+    let level: QueuedPage[] = [{ url: root.href, depth: 0, via: 'root' }];
+    const seeds = sitemapSeeds.filter(url => !seen.has(normalize(url)));
+    seeds.forEach(url => seen.add(normalize(url)));
+
+    while (level.length > 0 && crawled.length < maxPages && Date.now() < fetchUntil) {
+        const allowed: QueuedPage[] = [];
+        for (const queued of level) {
+            if (await robots.allows(queued.url)) allowed.push(queued);
+            else blockedByRobots++;
+        }
+
+        const batch = allowed.slice(0, maxPages - crawled.length);
+        const pages = await mapWithConcurrency(batch, CONFIG.FETCH_CONCURRENCY, async queued => {
+            if (Date.now() < fetchUntil) return crawlPage(queued, renders, requestId);
+            fetchCutShort = true;
+            return undefined;
+        });
+        // Several links can redirect to the same page; it is kept once
+        const fetched: CrawledPage[] = [];
+        for (const page of pages) {
+            if (!page || landed.has(normalize(page.finalUrl))) continue;
+            landed.add(normalize(page.finalUrl));
+            fetched.push(page);
+        }
+        crawled.push(...fetched);
+
+        // Sitemap seeds join the first link level, hanging off the root where it landed (http -> https, apex -> www)
+        const rootPage = fetched.find(page => page.via === 'root');
+        const next: QueuedPage[] = level[0]?.depth === 0 && maxDepth > 0
+            ? seeds.map(url => ({ url, depth: 1, parent: rootPage?.finalUrl, via: 'sitemap' as const }))
+            : [];
+        for (const page of fetched) {
+            seen.add(normalize(page.finalUrl));
+            if (page.depth >= maxDepth) continue;
+
+            for (const link of page.links) {
+                const key = normalize(link.url);
+                if (seen.has(key) || !isSameSite(link.url, siteHost)) continue;
+                seen.add(key);
+                next.push({ url: link.url, depth: page.depth + 1, parent: page.finalUrl, via: 'link', label: link.label });
+            }
+        }
+
+        level = next;
+        logger.info(requestId, 'CRAWL_LEVEL', {
+            crawled: crawled.length,
+            authPages: crawled.filter(p => p.kinds.length).length,
+            nextLevel: next.length,
+        });
+    }
+
+    const { nodes, edges } = buildGraph(crawled);
+    const { scanned, cutShort } = await scanAuthPages(nodes, maxScans, deadline, requestId);
+
+    const map: AuthSurfaceMap = {
+        root: root.href,
+        nodes,
+        edges,
+        stats: {
+            pagesCrawled: crawled.length,
+            authPages: nodes.filter(n => n.kinds.length).length,
+            scanned,
+            blockedByRobots,
+            sitemapUrls: sitemapSeeds.length,
+            truncated: level.length > 0 || fetchCutShort || cutShort,
+            duration: Date.now() - startTime,
+        },
+    };
+
+    logger.success(requestId, 'CRAWL_DONE', { ...map.stats, duration: `${map.stats.duration}ms` }, startTime);
+
+    return map;
+}
+
+async function crawlPage(queued: QueuedPage, renders: { count: number }, requestId: string): Promise<CrawledPage | undefined> {
+    let fetched = await fetchHTML(queued.url);
+    if (!fetched?.html) return undefined;
+
+    // A page without links is likely rendered client-side
+    if (!/<a\b[^>]*\bhref=/i.test(fetched.html) && renders.count < CONFIG.MAX_RENDERS) {
+        renders.count++;
+        fetched = await renderHTML(queued.url, requestId) ?? fetched;
+    }
+
+    const $ = cheerio.load(fetched.html!);
+    const title = $('title').first().text().trim().slice(0, 120) || undefined;
+    const links = extractLinks($, fetched.finalUrl);
+    const kinds = classifyPage(fetched.finalUrl, queued.label, title, fetched.html!);
+
+    return {
+        ...queued,
+        // Redirected pages are recorded where they landed
+        via: fetched.finalUrl !== queued.url && queued.via === 'link' ? 'redirect' : queued.via,
+        finalUrl: fetched.finalUrl,
+        title,
+        kinds,
+        links,
+    };
+}
+
+/*============================================================================*
+ * CLASSIFICATION
+ *============================================================================*/
+
+/**
+ * Page kinds from the URL path, the text of the link that led here, the
+ * title and the auth components found in the markup
+ */
+function classifyPage(url: string, label: string | undefined, title: string | undefined, html: string): AuthPageKind[] {
+    const path = pathOf(url);
+    const text = `${label ?? ''} | ${title ?? ''}`;
+    const kinds = new Set<AuthPageKind>();
+
+    for (const [kind, patterns] of Object.entries(KIND_PATTERNS) as Array<[AuthPageKind, { path: RegExp; text: RegExp }]>) {
+        if (patterns.path.test(path) || patterns.text.test(text)) kinds.add(kind);
+    }
+
+    for (const component of detectFromDOM(html)) {
+        const kind = COMPONENT_KINDS[component.type];
+        if (kind) kinds.add(kind);
+    }
+
+    return [...kinds];
+}
+
+function extractLinks($: cheerio.CheerioAPI, baseUrl: string): Array<{ url: string; label: string }> {
+    const links = new Map<string, { url: string; label: string }>();
+
+    $('a[href]').each((_, el) => {
+        if (links.size >= CONFIG.MAX_LINKS_PER_PAGE) return false;
+
+        const anchor = $(el);
+        const label = (anchor.text() || anchor.attr('aria-label') || anchor.attr('title') || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+        const url = resolveLink(anchor.attr('href') ?? '', baseUrl);
+        if (!url || SKIPPED_EXTENSIONS.test(pathOf(url)) || SKIPPED_LINKS.test(`${label} ${url}`)) return;
+
+        const key = normalize(url);
+        if (!links.has(key)) links.set(key, { url, label });
+    });
+
+    return [...links.values()];
+}
+
+/*============================================================================*
+ * GRAPH
+ *============================================================================*/
+
+/**
+ * Keep auth pages plus every page on the crawl path from the root to them.
+ * Edges are the crawl path, plus direct links between kept pages.
+ */
+function buildGraph(crawled: CrawledPage[]): { nodes: AuthSurfaceNode[]; edges: AuthSurfaceEdge[] } {
+    const byUrl = new Map(crawled.map(page => [page.finalUrl, page]));
+    const kept = new Set<string>();
+
+    for (const page of crawled) {
+        if (!page.kinds.length) continue;
+        for (let current: CrawledPage | undefined = page; current && !kept.has(current.finalUrl); current = current.parent ? byUrl.get(current.parent) : undefined) {
+            kept.add(current.finalUrl);
+        }
+    }
+
+    // An empty surface still shows the root
+    const root = crawled.find(page => page.via === 'root');
+    if (root) kept.add(root.finalUrl);
+
+    const pages = crawled.filter(page => kept.has(page.finalUrl));
+    const nodes: AuthSurfaceNode[] = pages
+        .map(page => ({ url: page.finalUrl, kinds: page.kinds, depth: page.depth, title: page.title }))
+        .sort((a, b) => a.depth - b.depth);
+
+    const edges: AuthSurfaceEdge[] = [];
+    const edgeKeys = new Set<string>();
+    const addEdge = (edge: AuthSurfaceEdge) => {
+        const key = `${edge.from} ${edge.to}`;
+        if (edge.from === edge.to || edgeKeys.has(key)) return;
+        edgeKeys.add(key);
+        edges.push(edge);
+    };
+
+    for (const page of pages) {
+        if (page.parent) addEdge({ from: page.parent, to: page.finalUrl, via: page.via, ...(page.label ? { label: page.label } : {}) });
+    }
+
+    const keptByKey = new Map(pages.map(page => [normalize(page.finalUrl), page.finalUrl]));
+    for (const page of pages) {
+        for (const link of page.links) {
+            const target = keptByKey.get(normalize(link.url));
+            if (target) addEdge({ from: page.finalUrl, to: target, via: 'link', ...(link.label ? { label: link.label } : {}) });
+        }
+    }
+
+    return { nodes, edges };
+}
+
+/**
+ * Browser-scan the shallowest `maxScans` auth pages in place. Pages are
+ * scanned as they are; login discovery is off. Scans still running at
+ * `deadline` are cancelled and the rest skipped. Returns how many succeeded
+ * and whether the deadline cut any short.
+ */
+async function scanAuthPages(
+    nodes: AuthSurfaceNode[],
+    maxScans: number,
+    deadline: AbortSignal,
+    requestId: string
+): Promise<{ scanned: number; cutShort: boolean }> {
+    const targets = nodes.filter(node => node.kinds.length).slice(0, maxScans);
+
+    const outcomes = await mapWithConcurrency(targets, CONFIG.SCAN_CONCURRENCY, async (node, i) => {
+        if (deadline.aborted) {
+            node.error = BUDGET_EXCEEDED;
+            return false;
+        }
+
+        const outcome = await runScan(node.url, `${requestId}-${i + 1}`, { discover: false, signal: deadline }).catch(
+            error => ({ success: false as const, error: error instanceof Error ? error.message : String(error) })
+        );
+
+        // Page screenshots are dropped like in batch scans; the annotated one stays
+        if (outcome.success) node.result = { ...outcome.report, screenshot: undefined } as AuthSurfaceNode['result'];
+        else node.error = deadline.aborted ? BUDGET_EXCEEDED : outcome.error;
+        return outcome.success;
+    });
+
+    return {
+        scanned: outcomes.filter(Boolean).length,
+        cutShort: targets.some(node => node.error === BUDGET_EXCEEDED),
+    };
+}
+
+/*============================================================================*
+ * ROBOTS AND SITEMAPS
+ *============================================================================*/
+
+/** robots.txt rules per origin, fetched once each */
+class RobotsCache {
+    private rules = new Map<string, Promise<RobotsRules>>();
+
+    rulesFor(origin: string): Promise<RobotsRules> {
+        let rules = this.rules.get(origin);
+        if (!rules) {
+            rules = fetchText(`${origin}/robots.txt`).then(text => parseRobots(text ?? ''));
+            this.rules.set(origin, rules);
+        }
+        return rules;
+    }
+
+    async allows(url: string): Promise<boolean> {
+        const parsed = new URL(url);
+        return isAllowed(await this.rulesFor(parsed.origin), `${parsed.pathname}${parsed.search}`);
+    }
+}
+
+/**
+ * Rules of the group for our agent, else the `*` group. Missing or
+ * unreadable robots.txt allows everything.
+ */
+function parseRobots(text: string): RobotsRules {
+    const groups: Array<{ agents: string[]; allow: string[]; disallow: string[] }> = [];
+    const sitemaps: string[] = [];
+    let current: (typeof groups)[number] | undefined;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'user-agent') {
+            if (!current || !lastWasAgent) {
+                current = { agents: [], allow: [], disallow: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+
+        lastWasAgent = false;
+        if (field === 'sitemap' && value) sitemaps.push(value);
+        else if (field === 'allow' && current && value) current.allow.push(value);
+        else if (field === 'disallow' && current && value) current.disallow.push(value);
+    }
+
+    const group = groups.find(g => g.agents.some(agent => agent && agent !== '*' && CONFIG.ROBOTS_AGENT.includes(agent)))
+        ?? groups.find(g => g.agents.includes('*'));
+
+    return { allow: group?.allow ?? [], disallow: group?.disallow ?? [], sitemaps };
+}
+
+/** Longest matching rule wins; Allow wins ties */
+function isAllowed(rules: RobotsRules, path: string): boolean {
+    const longest = (patterns: string[]) => Math.max(-1, ...patterns.filter(p => robotsPattern(p).test(path)).map(p => p.length));
+    return longest(rules.allow) >= longest(rules.disallow);
+}
+
+function robotsPattern(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Auth-looking same-site URLs from the sitemaps listed in robots.txt (or
+ * `/sitemap.xml`), following sitemap indexes. Only same-site sitemaps are
+ * fetched, so a site can't point the crawler at other hosts.
+ */
+async function readSitemapSeeds(root: URL, siteHost: string, robots: RobotsRules, requestId: string): Promise<string[]> {
+    const queue = robots.sitemaps.length ? [...robots.sitemaps] : [`${root.origin}/sitemap.xml`];
+    const seeds: string[] = [];
+    let read = 0;
+
+    while (queue.length > 0 && read < CONFIG.MAX_SITEMAPS && seeds.length < CONFIG.MAX_SITEMAP_SEEDS) {
+        const sitemapUrl = queue.shift()!;
+        if (sitemapUrl.endsWith('.gz') || !/^https?:\/\//i.test(sitemapUrl) || !isSameSite(sitemapUrl, siteHost)) continue;
+
+        const xml = await fetchText(sitemapUrl);
+        read++;
+        if (!xml) continue;
+
+        const locations = [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi)].map(match => decodeXML(match[1]));
+        if (/<sitemapindex\b/i.test(xml)) {
+            queue.push(...locations);
+            continue;
+        }
+
+        for (const url of locations) {
+            const path = pathOf(url);
+            if (seeds.length >= CONFIG.MAX_SITEMAP_SEEDS) break;
+            if (isSameSite(url, siteHost) && Object.values(KIND_PATTERNS).some(patterns => patterns.path.test(path))) seeds.push(url);
+        }
+    }
+
+    logger.info(requestId, 'CRAWL_SITEMAPS', { sitemapsRead: read, authSeeds: seeds.length });
+    return seeds;
+}
+
+/*============================================================================*
+ * FETCHING
+ *============================================================================*/
+
+async function fetchHTML(url: string): Promise<FetchedPage | undefined> {
+    try {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': CONFIG.USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+            redirect: 'follow',
+            signal: AbortSignal.timeout(CONFIG.TIMEOUTS.FETCH),
+        });
+
+        if (!response.ok || !/html/i.test(response.headers.get('content-type') ?? '')) {
+            await response.body?.cancel();
+            return { finalUrl: response.url || url };
+        }
+
+        return { finalUrl: response.url || url, html: (await response.text()).slice(0, CONFIG.MAX_HTML_BYTES) };
+    } catch {
+        return undefined;
+    }
+}
+
+async function fetchText(url: string): Promise<string | undefined> {
+    try {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': CONFIG.USER_AGENT },
+            signal: AbortSignal.timeout(CONFIG.TIMEOUTS.FETCH),
+        });
+        if (!response.ok) {
+            await response.body?.cancel();
+            return undefined;
+        }
+        return (await response.text()).slice(0, CONFIG.MAX_HTML_BYTES);
+    } catch {
+        return undefined;
+    }
+}
+
+/** Render `url` in the shared browser for pages that build their links with script */
+async function renderHTML(url: string, requestId: string): Promise<FetchedPage | undefined> {
+    const context = await browserPool.createContext(requestId).catch(() => undefined);
+    if (!context) return undefined;
+
+    try {
+        const page = await context.newPage();
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: CONFIG.TIMEOUTS.RENDER });
+        await page.waitForTimeout(1500);
+        return { finalUrl: page.url(), html: await page.content() };
+    } catch (error) {
+        logger.warn(requestId, 'CRAWL_RENDER_FAILED', error instanceof Error ? error.message : String(error), { url });
+        return undefined;
+    } finally {
+        await browserPool.closeContext(context, requestId);
+    }
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+function resolveLink(href: string, baseUrl: string): string | undefined {
+    try {
+        const url = new URL(href, baseUrl);
+        if (!/^https?:$/.test(url.protocol)) return undefined;
+        url.hash = '';
+        return url.href;
+    } catch {
+        return undefined;
+    }
+}
+
+function isSameSite(url: string, siteHost: string): boolean {
+    try {
+        const host = new URL(url).hostname.replace(/^www\./, '');
+        return host === siteHost || host.endsWith(`.${siteHost}`);
+    } catch {
+        return false;
+    }
+}
+
+function normalize(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.protocol}//${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+    } catch {
+        return url;
+    }
+}
+
+function pathOf(url: string): string {
+    try {
+        return new URL(url).pathname;
+    } catch {
+        return '';
+    }
+}
+
+function decodeXML(value: string): string {
+    return value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+}
@@ -14,6 +14,8 @@ import type { DetectionResult } from '@/lib/types/auth.types';
 
 export const CACHE_CONFIG = {
     MAX_SIZE: 1000,
+    // Bump when the result shape or component taxonomy changes so stale entries are not served
+    SCHEMA_VERSION: 2,
     DEFAULT_TTL: 24 * 60 * 60 * 1000, // 24 hours
 
     TTL_BY_DOMAIN: {
@@ -75,9 +77,16 @@ class DetectionCache {
     }
 
     /**
-     * Normalize URL to create consistent cache key
+     * Cache key: schema version + normalized URL
      */
-    private normalizeURL(url: string): string {
+    private cacheKey(url: string): string {
+        return `v${CACHE_CONFIG.SCHEMA_VERSION}:${this.normalizeURL(url)}`;
+    }
+
+    /**
+     * Normalize URL to create consistent cache key; also used to dedupe batch scans
+     */
+    normalizeURL(url: string): string {
         try {
             const parsed = new URL(url);
             const hostname = parsed.hostname.replace(/^www\./, '');
@@ -123,7 +132,7 @@ class DetectionCache {
      * Get cached detection result
      */
     get(url: string, requestId: string): DetectionResult | null {
-        const cacheKey = this.normalizeURL(url);
+        const cacheKey = this.cacheKey(url);
         const cached = this.cache.get(cacheKey);
 
         if (cached) {
@@ -182,7 +191,7 @@ class DetectionCache {
             return;
         }
 
-        const cacheKey = this.normalizeURL(url);
+        const cacheKey = this.cacheKey(url);
         const ttl = this.getTTL(url, result.detectionMethod);
         const now = Date.now();
 
@@ -201,6 +210,7 @@ class DetectionCache {
                 expiresAt: new Date(cachedResult.expiresAt).toISOString(),
                 detectionMethod: result.detectionMethod,
                 componentCount: result.components.length,
+                types: [...new Set(result.components.map(c => c.type))],
                 cacheSize: this.cache.size,
             });
         }
@@ -210,7 +220,7 @@ class DetectionCache {
      * Check if URL is in cache
      */
     has(url: string): boolean {
-        const cacheKey = this.normalizeURL(url);
+        const cacheKey = this.cacheKey(url);
         return this.cache.has(cacheKey);
     }
 
@@ -218,7 +228,7 @@ class DetectionCache {
      * Remove specific URL from cache
      */
     delete(url: string, requestId: string): boolean {
-        const cacheKey = this.normalizeURL(url);
+        const cacheKey = this.cacheKey(url);
         const deleted = this.cache.delete(cacheKey);
 
         if (deleted) {
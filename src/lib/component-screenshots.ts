@@ -0,0 +1,198 @@
+/**
+ * Component Screenshots
+ *
+ * Location and imagery for detected components: a bounding box in page
+ * coordinates, a cropped element screenshot, and one full-page screenshot
+ * with a numbered box drawn around every component.
+ */
+
+import { Locator, Page } from 'playwright';
+import { logger } from './logger';
+import type { AuthComponent, BoundingBox } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+export interface ElementVisuals {
+    visible: boolean;
+    boundingBox?: BoundingBox;
+    screenshot?: string;
+}
+
+interface Annotation {
+    index: number;
+    box: BoundingBox;
+    color: string;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+const CONFIG = {
+    SCREENSHOT: {
+        TYPE: 'jpeg' as const,
+        QUALITY: 70,
+    },
+    // Larger elements are page-sized containers; their crop adds nothing
+    MAX_ELEMENT_DIMENSION: 1600,
+    MAX_ANNOTATED_HEIGHT: 4000,
+    OVERLAY_ID: '__auth-detector-annotations',
+    TIMEOUTS: {
+        ELEMENT: 5000,
+        FULL_PAGE: 15000,
+    },
+} as const;
+
+const BOX_COLORS = ['#c8ff00', '#ff2281', '#00ffff', '#ffb800', '#a855f7', '#22c55e'];
+
+// Element screenshots scroll the page; one capture at a time per page keeps crops aligned
+const captureQueues = new WeakMap<Page, Promise<unknown>>();
+
+/*============================================================================*
+ * ELEMENT CAPTURE
+ *============================================================================*/
+
+/**
+ * Bounding box (document coordinates of the top-level page, so boxes from
+ * iframes line up with the full-page screenshot), visibility and a cropped
+ * screenshot of `element`. Hidden elements get no box or screenshot.
+ */
+export async function captureElementVisuals(element: Locator, requestId: string): Promise<ElementVisuals> {
+    const page = element.page();
+
+    return inQueue(page, async () => {
+        try {
+            if (!await element.isVisible()) return { visible: false };
+
+            const viewportBox = await element.boundingBox();
+            if (!viewportBox || viewportBox.width === 0 || viewportBox.height === 0) return { visible: false };
+
+            const oversized = viewportBox.width > CONFIG.MAX_ELEMENT_DIMENSION || viewportBox.height > CONFIG.MAX_ELEMENT_DIMENSION;
+            const buffer = oversized ? undefined : await element.screenshot({
+                type: CONFIG.SCREENSHOT.TYPE,
+                quality: CONFIG.SCREENSHOT.QUALITY,
+                timeout: CONFIG.TIMEOUTS.ELEMENT,
+                animations: 'disabled',
+            });
+
+            // Re-read after the screenshot scrolled the element into view
+            const [box, scroll] = await Promise.all([
+                element.boundingBox(),
+                page.evaluate(() => ({ x: window.scrollX, y: window.scrollY })),
+            ]);
+            const current = box || viewportBox;
+
+            return {
+                visible: true,
+                boundingBox: {
+                    x: Math.round(current.x + scroll.x),
+                    y: Math.round(current.y + scroll.y),
+                    width: Math.round(current.width),
+                    height: Math.round(current.height),
+                },
+                screenshot: buffer ? `data:image/jpeg;base64,${buffer.toString('base64')}` : undefined,
+            };
+        } catch (error) {
+            logger.warn(requestId, 'ELEMENT_SCREENSHOT_FAILED', error instanceof Error ? error.message : String(error));
+            return { visible: await element.isVisible().catch(() => false) };
+        }
+    });
+}
+
+/*============================================================================*
+ * ANNOTATED SCREENSHOT
+ *============================================================================*/
+
+/**
+ * Full-page screenshot (capped at `MAX_ANNOTATED_HEIGHT`) with numbered
+ * boxes around components that have a bounding box. The overlay is removed
+ * afterwards. Returns undefined when no component has a box.
+ */
+export async function captureAnnotatedScreenshot(
+    page: Page,
+    components: AuthComponent[],
+    requestId: string
+): Promise<string | undefined> {
+    const annotations: Annotation[] = components
+        .filter((c): c is AuthComponent & { boundingBox: BoundingBox; annotationIndex: number } => !!c.boundingBox && c.annotationIndex !== undefined)
+        .map(c => ({ index: c.annotationIndex, box: c.boundingBox, color: BOX_COLORS[(c.annotationIndex - 1) % BOX_COLORS.length] }));
+
+    if (annotations.length === 0 || page.isClosed()) return undefined;
+
+    try {
+        await page.evaluate(drawAnnotations, { id: CONFIG.OVERLAY_ID, annotations });
+
+        const size = await page.evaluate(() => ({
+            width: document.documentElement.scrollWidth,
+            height: document.documentElement.scrollHeight,
+        }));
+        const viewport = page.viewportSize();
+        const buffer = await page.screenshot({
+            type: CONFIG.SCREENSHOT.TYPE,
+            quality: CONFIG.SCREENSHOT.QUALITY,
+            fullPage: true,
+            clip: {
+                x: 0,
+                y: 0,
+                width: viewport?.width ?? size.width,
+                height: Math.min(size.height, CONFIG.MAX_ANNOTATED_HEIGHT),
+            },
+            timeout: CONFIG.TIMEOUTS.FULL_PAGE,
+            animations: 'disabled',
+        });
+
+        logger.success(requestId, 'ANNOTATED_SCREENSHOT', {
+            boxes: annotations.length,
+            size: `${Math.round(buffer.length / 1024)}KB`,
+        });
+
+        return `data:image/jpeg;base64,${buffer.toString('base64')}`;
+    } catch (error) {
+        logger.warn(requestId, 'ANNOTATED_SCREENSHOT_FAILED', error instanceof Error ? error.message : String(error));
+        return undefined;
+    } finally {
+        await page.evaluate((id: string) => document.getElementById(id)?.remove(), CONFIG.OVERLAY_ID).catch(() => undefined);
+    }
+}
+
+/**
+ * Runs in the page. Draws one absolutely positioned box plus number label
+ * per annotation, above everything and ignoring pointer events.
+ */
+const drawAnnotations = ({ id, annotations }: { id: string; annotations: Annotation[] }) => {
+    document.getElementById(id)?.remove();
+
+    const overlay = document.createElement('div');
+    overlay.id = id;
+    overlay.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;z-index:2147483647;pointer-events:none;';
+
+    for (const { index, box, color } of annotations) {
+        const frame = document.createElement('div');
+        frame.style.cssText = `position:absolute;left:${box.x}px;top:${box.y}px;width:${box.width}px;height:${box.height}px;` +
+            `border:3px solid ${color};box-sizing:border-box;`;
+
+        const label = document.createElement('div');
+        label.textContent = String(index);
+        label.style.cssText = `position:absolute;left:-3px;top:${box.y < 26 ? 0 : -26}px;min-width:22px;padding:2px 6px;background:${color};color:#000;` +
+            'font:bold 14px/18px monospace;text-align:center;border:2px solid #000;';
+
+        frame.appendChild(label);
+        overlay.appendChild(frame);
+    }
+
+    // On <html>, so offsets are document coordinates even when <body> is positioned
+    document.documentElement.appendChild(overlay);
+};
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+function inQueue<T>(page: Page, task: () => Promise<T>): Promise<T> {
+    const previous = captureQueues.get(page) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    captureQueues.set(page, next.catch(() => undefined));
+    return next;
+}
@@ -0,0 +1,169 @@
+/**
+ * Component Confidence Scoring
+ *
+ * Collects an evidence trail for each detected component and folds it into
+ * a 0-1 confidence score so callers can drop weak detections.
+ */
+
+import type { AuthComponent, DetectionEvidence, DetectionResult, NetworkAuthSignal, WebAuthnProbeResult } from '@/lib/types/auth.types';
+import { canonicalProviderId } from './identity-providers';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EvidenceContext {
+    /** `extractionPatterns` id -> matched HTML sections */
+    patternHits: Map<string, string[]>;
+    /** Output of `getAccessibilityAuthSignals` */
+    a11ySignals: string[];
+    /** Auth-related requests captured during the scrape */
+    networkSignals: NetworkAuthSignal[];
+    /** WebAuthn instrumentation probe result */
+    webauthn?: WebAuthnProbeResult;
+}
+
+export const EVIDENCE_WEIGHTS = {
+    ai: 0.5,
+    agreement: 0.3,
+    extractionPattern: 0.1,
+    a11ySignal: 0.1,
+    networkSignal: 0.25,
+    webauthnCall: 0.5,
+    webauthnInput: 0.2,
+    selectorVisible: 0.3,
+    selectorHidden: 0.1,
+    fallbackMatch: 0.15,
+    selectorMissing: -0.4,
+};
+
+const MAX_A11Y_EVIDENCE = 3;
+const MAX_NETWORK_EVIDENCE = 3;
+
+const TYPE_KEYWORDS: Record<AuthComponent['type'], RegExp> = {
+    traditional: /password|sign\s*in|log\s*in|login|username/i,
+    oauth: /oauth|sign in with|continue with|log in with/i,
+    passwordless: /passkey|webauthn|magic\s*link|one[-\s]*time|otp|verification code/i,
+    sso: /\bsso\b|single sign[-\s]?on|saml|enterprise|work account|company account/i,
+    mfa: /two[-\s]?factor|2fa|multi[-\s]?factor|mfa|authenticator|verification code|security code|one[-\s]*time/i,
+    registration: /sign\s*up|register|create (?:an |your )?account|join|get started/i,
+    recovery: /forgot|reset|recover|trouble (?:signing|logging) in|can'?t (?:sign|log) in/i,
+    captcha: /captcha|recaptcha|hcaptcha|turnstile|verify (?:you are|you're) human|arkose/i,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scoring
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Attach engine, pattern and a11y evidence to each component and compute its
+ * confidence. Selector evidence is recorded earlier, during extraction.
+ */
+export const scoreComponents = (components: AuthComponent[], context: EvidenceContext): AuthComponent[] =>
+    components.map(comp => {
+        const evidence: DetectionEvidence[] = [...(comp.evidence || [])];
+        const keywords = keywordsFor(comp);
+
+        if (comp.detectedBy?.includes('ai')) {
+            evidence.push({ source: 'ai', detail: 'Reported by AI model', weight: EVIDENCE_WEIGHTS.ai });
+        }
+        if (comp.detectedBy?.includes('ai') && comp.detectedBy.includes('pattern')) {
+            evidence.push({ source: 'agreement', detail: 'AI and pattern engines agree', weight: EVIDENCE_WEIGHTS.agreement });
+        }
+
+        for (const [id, sections] of context.patternHits) {
+            if (sections.some(section => keywords.test(section))) {
+                evidence.push({ source: 'pattern', detail: `extractionPatterns:${id}`, weight: EVIDENCE_WEIGHTS.extractionPattern });
+            }
+        }
+
+        context.a11ySignals
+            .filter(signal => keywords.test(signal))
+            .slice(0, MAX_A11Y_EVIDENCE)
+            .forEach(signal => evidence.push({ source: 'a11y', detail: signal, weight: EVIDENCE_WEIGHTS.a11ySignal }));
+
+        context.networkSignals
+            .filter(signal => networkSupports(comp, signal))
+            .slice(0, MAX_NETWORK_EVIDENCE)
+            .forEach(signal => evidence.push({ source: 'network', detail: `${signal.kind} ${signal.method} ${signal.url}`, weight: EVIDENCE_WEIGHTS.networkSignal }));
+
+        if (context.webauthn && usesPasskeys(comp)) {
+            evidence.push(...webauthnEvidence(context.webauthn));
+        }
+
+        return { ...comp, evidence, confidence: computeConfidence(evidence) };
+    });
+
+/**
+ * Noisy-OR over positive evidence, scaled down by each negative signal.
+ */
+export const computeConfidence = (evidence: DetectionEvidence[]): number => {
+    const positive = 1 - evidence.filter(e => e.weight > 0).reduce((acc, e) => acc * (1 - e.weight), 1);
+    const penalty = evidence.filter(e => e.weight < 0).reduce((acc, e) => acc * (1 + e.weight), 1);
+    return Math.round(Math.min(1, Math.max(0, positive * penalty)) * 100) / 100;
+};
+
+/**
+ * Drop components scoring below `minConfidence` (unscored components are kept).
+ */
+export const filterByConfidence = (result: DetectionResult, minConfidence: number): DetectionResult => {
+    const components = result.components.filter(c => c.confidence === undefined || c.confidence >= minConfidence);
+    return { ...result, components, found: result.found && components.length > 0 };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const keywordsFor = (comp: AuthComponent): RegExp => {
+    const providers = comp.details.providers?.filter(Boolean);
+    if (comp.type === 'oauth' && providers?.length) {
+        return new RegExp(providers.map(escapeRegExp).join('|'), 'i');
+    }
+    return TYPE_KEYWORDS[comp.type] ?? /sign|log|auth/i;
+};
+
+/**
+ * Whether a captured request corroborates `comp`: provider traffic for oauth,
+ * SAML/OIDC for SSO, WebAuthn calls for passkeys, CAPTCHA services, and
+ * login API calls for credential forms.
+ */
+const networkSupports = (comp: AuthComponent, signal: NetworkAuthSignal): boolean => {
+    switch (comp.type) {
+        case 'oauth': {
+            const providers = (comp.details.providers || []).map(canonicalProviderId);
+            return !!signal.provider && providers.includes(signal.provider);
+        }
+        case 'sso':
+            return signal.kind === 'saml' || (signal.kind === 'oidc-discovery' && !signal.provider);
+        case 'passwordless':
+            return comp.details.method === 'passkey' && signal.kind === 'webauthn';
+        case 'mfa':
+            return signal.kind === 'webauthn' && comp.details.kind === 'security-key';
+        case 'captcha':
+            return signal.kind === 'captcha' && (!comp.details.kind || comp.details.kind === signal.detail);
+        case 'traditional':
+            return signal.kind === 'auth-api';
+        default:
+            return false;
+    }
+};
+
+const usesPasskeys = (comp: AuthComponent): boolean =>
+    (comp.type === 'passwordless' && comp.details.method === 'passkey') ||
+    (comp.type === 'mfa' && comp.details.kind === 'security-key');
+
+const webauthnEvidence = (probe: WebAuthnProbeResult): DetectionEvidence[] => [
+    ...probe.calls.map((call): DetectionEvidence => ({
+        source: 'runtime',
+        detail: call.api === 'get'
+            ? `navigator.credentials.get (mediation: ${call.mediation}, allowCredentials: ${call.allowCredentials})`
+            : `navigator.credentials.create (residentKey: ${call.residentKey ?? 'unset'})`,
+        weight: EVIDENCE_WEIGHTS.webauthnCall,
+    })),
+    ...(probe.webauthnInputs > 0
+        ? [{ source: 'runtime' as const, detail: `${probe.webauthnInputs} input(s) with autocomplete="webauthn"`, weight: EVIDENCE_WEIGHTS.webauthnInput }]
+        : []),
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
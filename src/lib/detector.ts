@@ -1,12 +1,24 @@
 /**
  * AI-Powered Authentication Detection Engine
- * Identifies auth components using Gemini vision + pattern fallbacks
+ * Identifies auth components using AI vision + pattern fallbacks
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Page } from 'playwright';
+import { Frame, Locator, Page } from 'playwright';
 import { logger } from './logger';
-import type { AuthComponent, DetectionResult, AIDetectionResponse } from '@/lib/types/auth.types';
+import { getDefaultAIProvider, type AIProvider } from './ai-providers';
+import { parseAIJSON, validateAIResponse, AI_RESPONSE_SCHEMA, type AIValidationResult, type SchemaIssue } from './ai-schema';
+import { detectFromDOM } from './dom-detector';
+import { stabilizeSelector } from './selector-synthesis';
+import { buildSnippetPreview } from './snippet-preview';
+import { captureElementVisuals, captureAnnotatedScreenshot } from './component-screenshots';
+import { IDENTITY_PROVIDERS, PROVIDER_KEYWORDS, canonicalProviderId, providerSelectors } from './identity-providers';
+import { hasWebAuthnActivity } from './webauthn-probe';
+import { fingerprintPlatform, extractScriptSrcs } from './platform-fingerprint';
+import { auditComponents } from './security-audit';
+import { auditAccessibility } from './accessibility-audit';
+import { scoreComponents, EVIDENCE_WEIGHTS, type EvidenceContext } from './confidence';
+import type { FrameContent, ScrapeMetadata } from './scraper';
+import type { AuthComponent, AuthComponentType, DetectionEvidence, DetectionResult, AIDetectionResponse, NetworkAuthSignal, PlatformFingerprint } from '@/lib/types/auth.types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Module Configuration
@@ -20,25 +32,50 @@ const TIMEOUTS = {
     fallbackPerAttempt: 3000,
 };
 
+// How many matches of an ambiguous selector are checked for visibility
+const MAX_VISIBILITY_PROBES = 10;
+
+// Frames searched per selector, preferred frame and main frame included
+const MAX_FRAMES_SEARCHED = 16;
+
+// Bounded repair round-trips when the model output fails schema validation
+const AI_REPAIR_ATTEMPTS = 1;
+
+// Network signals listed in the prompt
+const MAX_PROMPT_NETWORK_SIGNALS = 15;
+
 const HTML_LIMITS = {
     maxSize: 15000,
     minSnippet: 20,
     maxSnippet: 1500,
 };
 
-const AI_MODEL = 'gemini-3-flash-preview';
-
 // Pre-compiled extraction patterns for performance
 const extractionPatterns = [
     { id: 'pwd-forms', pattern: /<form[^>]*>[\s\S]{0,2000}?<input[^>]*type=["']password["'][^>]*>[\s\S]{0,2000}?<\/form>/gi },
     { id: 'auth-forms', pattern: /<form[^>]*(?:login|signin|sign-in|signup|sign-up|auth|register)[^>]*>[\s\S]{0,1500}?<\/form>/gi },
     { id: 'nav-auth', pattern: /<(?:nav|header|div)[^>]{0,300}>[\s\S]{0,3000}?(?:sign|login|register|auth|log in|sign up|join|get started)[\s\S]{0,3000}?<\/(?:nav|header|div)>/gi, filterFn: (m: string) => /(?:button|a|input)[^>]*(?:sign|login|register|auth)/i.test(m) || /(?:sign in|log in|login|register|sign up|join now|get started)/i.test(m) },
-    { id: 'auth-btns', pattern: /<(?:button|a)[^>]*>[\s\S]{0,500}?<\/(?:button|a)>/gi, filterFn: (m: string) => /sign|login|auth|continue|google|facebook|github|twitter|apple|microsoft|linkedin|amazon|passkey|magic|register|join|get started/i.test(m) },
-    { id: 'btn-context', pattern: /<(?:div|li|span|header|nav)[^>]{0,200}>[\s\S]{0,1500}?<(?:button|a)[^>]*>[\s\S]{0,800}?<\/(?:button|a)>[\s\S]{0,1500}?<\/(?:div|li|span|header|nav)>/gi, filterFn: (m: string) => /sign|login|auth|continue|google|facebook|github|twitter|apple|microsoft|linkedin|amazon|passkey|magic|register|join|get started/i.test(m) },
+    { id: 'auth-btns', pattern: /<(?:button|a)[^>]*>[\s\S]{0,500}?<\/(?:button|a)>/gi, filterFn: (m: string) => /sign|login|auth|continue|passkey|magic|register|join|get started|sso|single sign|create account/i.test(m) || PROVIDER_KEYWORDS.test(m) },
+    { id: 'btn-context', pattern: /<(?:div|li|span|header|nav)[^>]{0,200}>[\s\S]{0,1500}?<(?:button|a)[^>]*>[\s\S]{0,800}?<\/(?:button|a)>[\s\S]{0,1500}?<\/(?:div|li|span|header|nav)>/gi, filterFn: (m: string) => /sign|login|auth|continue|passkey|magic|register|join|get started/i.test(m) || PROVIDER_KEYWORDS.test(m) },
     { id: 'auth-divs', pattern: /<div[^>]*(?:class|id)=["'][^"']*(?:login|signin|sign-in|auth|authentication|oauth|social)[^"']*["'][^>]*>[\s\S]{0,1500}?<\/div>/gi },
     { id: 'webauthn', pattern: /<webauthn-subtle[^>]*>[\s\S]{0,800}?<\/webauthn-subtle>/gi },
+    { id: 'captcha', pattern: /<(?:div|iframe)[^>]*(?:g-recaptcha|h-captcha|cf-turnstile|recaptcha\/api|hcaptcha\.com|challenges\.cloudflare\.com|arkoselabs)[^>]*>/gi },
+    { id: 'recovery-links', pattern: /<a[^>]*>[\s\S]{0,300}?<\/a>/gi, filterFn: (m: string) => /forgot|reset (?:your )?password|recover|trouble (?:signing|logging) in/i.test(m) },
 ];
 
+export type DetectionMode = 'ai' | 'pattern' | 'hybrid';
+
+export interface DetectionOptions {
+    /** AI provider override; `null` disables AI, `undefined` resolves from env */
+    aiProvider?: AIProvider | null;
+    /** Defaults to `DETECTION_MODE` env var, then `'ai'` (AI with pattern fallback) */
+    mode?: DetectionMode;
+    /** Scrape signals (a11y hits, ...) used as detection evidence */
+    scrapeMetadata?: ScrapeMetadata;
+    /** Called as each component is extracted from the page, before scoring and audits */
+    onComponent?: (component: AuthComponent) => void;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main Detection Entry Point
 // ─────────────────────────────────────────────────────────────────────────────
@@ -48,33 +85,112 @@ export const detectAuthentication = async (
     url: string,
     screenshot: string | undefined,
     page: Page,
-    requestId: string
+    requestId: string,
+    options: DetectionOptions = {}
 ): Promise<DetectionResult> => {
     const t0 = Date.now();
-    const apiKey = process.env['GEMINI_API_KEY'];
+    const mode = resolveMode(options, requestId);
+    const provider = mode === 'pattern' ? null : resolveProvider(options, requestId);
+    const frames = options.scrapeMetadata?.frames || [];
+    const evidence: EvidenceContext = {
+        patternHits: collectPatternHits(withFrameSections(html, frames)),
+        a11ySignals: options.scrapeMetadata?.a11ySignals || [],
+        networkSignals: options.scrapeMetadata?.networkSignals || [],
+        webauthn: options.scrapeMetadata?.webauthn,
+    };
 
     logger.info(requestId, 'DETECT_BEGIN', {
         url,
+        mode,
         htmlKB: `${Math.round(html.length / 1024)}KB`,
-        hasApiKey: !!apiKey,
+        aiProvider: provider ? `${provider.name}/${provider.model}` : 'none',
         hasScreenshot: !!screenshot,
+        networkSignals: evidence.networkSignals.length,
+        frames: frames.length,
     });
 
+    const platform = detectPlatform(html, frames, url, options.scrapeMetadata, requestId);
+    // Audits and annotation run on the final component list, whichever engine produced it
+    const finish = async (result: DetectionResult): Promise<DetectionResult> => {
+        const secured = withSecurityAudit(result.components, html, frames, url, requestId);
+        // Only boxed components are drawn, so only they take a number
+        let annotated = 0;
+        const components = (await auditAccessibility(page, secured, requestId))
+            .map(c => c.boundingBox ? { ...c, annotationIndex: ++annotated } : c);
+        const annotatedScreenshot = await captureAnnotatedScreenshot(page, components, requestId);
+        return { ...result, components, platform, annotatedScreenshot };
+    };
+
+    // Run both engines and reconcile their findings
+    if (provider && mode === 'hybrid') {
+        const hybridResult = await runHybridDetection(html, frames, url, screenshot, page, provider, evidence, requestId, options.onComponent);
+        logger.success(requestId, 'DETECT_DONE', { method: hybridResult.detectionMethod, found: hybridResult.found, count: hybridResult.components.length }, t0);
+        return finish(hybridResult);
+    }
+
     // Try AI-powered detection first
-    if (apiKey) {
+    if (provider) {
         try {
-            const aiResult = await runAIDetection(html, url, screenshot, page, apiKey, requestId);
+            const aiResult = await runAIDetection(html, frames, url, screenshot, page, provider, evidence, requestId, options.onComponent);
             logger.success(requestId, 'DETECT_DONE', { method: 'ai', found: aiResult.found, count: aiResult.components.length }, t0);
-            return aiResult;
+            return finish(aiResult);
         } catch (err) {
             logger.error(requestId, 'DETECT_AI_ERR', err as Error, { url, fallback: 'patterns' });
         }
     }
 
     // Fallback to pattern matching
-    const patternResult = await runPatternDetection(html, url, page, requestId);
+    const patternResult = await runPatternDetection(html, frames, url, page, evidence, requestId, options.onComponent);
     logger.success(requestId, 'DETECT_DONE', { method: 'pattern', found: patternResult.found, count: patternResult.components.length }, t0);
-    return patternResult;
+    return finish(patternResult);
+};
+
+/**
+ * Identify the identity vendor from page and frame markup plus the scrape's
+ * request URLs, cookie names and SDK globals.
+ */
+const detectPlatform = (html: string, frames: FrameContent[], url: string, metadata: ScrapeMetadata | undefined, reqId: string): PlatformFingerprint => {
+    const fullHtml = withFrameSections(html, frames);
+    const platform = fingerprintPlatform({
+        html: fullHtml,
+        scriptSrcs: extractScriptSrcs(fullHtml),
+        cookieNames: metadata?.cookieNames || [],
+        jsGlobals: metadata?.jsGlobals || [],
+        urls: [
+            url,
+            ...frames.map(f => f.url),
+            ...(metadata?.requestUrls || []),
+            ...(metadata?.networkSignals || []).map(s => s.url),
+        ],
+    });
+
+    logger.info(reqId, 'PLATFORM_FINGERPRINT', {
+        primary: platform.primary || 'none',
+        matches: platform.matches.map(m => `${m.id}:${m.confidence}`).join(',') || 'none',
+    });
+    return platform;
+};
+
+/**
+ * Audit credential forms against the document they were found in: the
+ * component's frame when it has one, otherwise the page.
+ */
+const withSecurityAudit = (components: AuthComponent[], html: string, frames: FrameContent[], url: string, reqId: string): AuthComponent[] => {
+    const audited = auditComponents(components, comp => {
+        const frame = comp.frameUrl ? frames.find(f => f.url === comp.frameUrl) : undefined;
+        return frame ? { html: frame.html, url: frame.url } : { html, url };
+    });
+
+    const findings = audited.flatMap(c => c.security || []);
+    if (audited.some(c => c.security)) {
+        logger.info(reqId, 'SECURITY_AUDIT', {
+            forms: audited.filter(c => c.security).length,
+            findings: findings.length,
+            high: findings.filter(f => f.severity === 'high').length,
+            ids: [...new Set(findings.map(f => f.id))].join(',') || 'none',
+        });
+    }
+    return audited;
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -83,67 +199,191 @@ export const detectAuthentication = async (
 
 const runAIDetection = async (
     html: string,
+    frames: FrameContent[],
     url: string,
     screenshot: string | undefined,
     page: Page,
-    apiKey: string,
-    reqId: string
+    provider: AIProvider,
+    evidence: EvidenceContext,
+    reqId: string,
+    onComponent?: DetectionOptions['onComponent']
 ): Promise<DetectionResult> => {
     const t0 = Date.now();
-    logger.info(reqId, 'AI_DETECT_START', { model: AI_MODEL, hasScreenshot: !!screenshot, timeout: `${TIMEOUTS.aiApi}ms` });
+    const aiData = await requestAIComponents(html, frames, url, screenshot, provider, evidence, reqId);
+    const components = withSignalComponents(aiData.components.map((c): AuthComponent => ({ ...c, detectedBy: ['ai'] })), evidence, reqId);
+
+    logger.info(reqId, 'EXTRACT_START', { count: components.length, timeout: `${TIMEOUTS.extraction}ms` });
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: AI_MODEL });
+    const enrichedComponents = await extractSnippetsFromPage(components, page, reqId, onComponent);
+    const uniqueComponents = scoreComponents(removeDuplicates(enrichedComponents, reqId), evidence);
+    const found = aiData.found || uniqueComponents.length > 0;
 
-    const relevantHtml = extractRelevantSections(html, reqId);
-    const prompt = buildPrompt(url, relevantHtml, !!screenshot);
-    const parts = screenshot ? [{ inlineData: { mimeType: 'image/jpeg', data: screenshot.replace(/^data:image\/\w+;base64,/, '') } }, { text: prompt }] : [{ text: prompt }];
+    logger.success(reqId, 'AI_DETECT_DONE', { found, componentCount: uniqueComponents.length }, t0);
+
+    return { success: true, url, found, components: uniqueComponents, detectionMethod: 'ai' };
+};
+
+const requestAIComponents = async (
+    html: string,
+    frames: FrameContent[],
+    url: string,
+    screenshot: string | undefined,
+    provider: AIProvider,
+    evidence: EvidenceContext,
+    reqId: string
+): Promise<AIDetectionResponse> => {
+    const t0 = Date.now();
+    logger.info(reqId, 'AI_DETECT_START', { provider: provider.name, model: provider.model, hasScreenshot: !!screenshot, timeout: `${TIMEOUTS.aiApi}ms` });
+
+    const relevantHtml = extractRelevantSections(withFrameSections(html, frames), evidence.patternHits, reqId);
+    const prompt = buildPrompt(url, relevantHtml, !!screenshot, evidence.networkSignals);
 
     logger.info(reqId, 'AI_CALL_START', { promptLen: prompt.length, htmlLen: relevantHtml.length });
 
     const responseText = await withTimeout(
-        model.generateContent(parts).then(r => r.response.text()),
+        provider.generate({ prompt, screenshot }),
         TIMEOUTS.aiApi,
         'AI API call'
     );
 
     logger.success(reqId, 'AI_CALL_DONE', { responseLen: responseText.length }, t0);
 
-    const aiData = parseAIOutput(responseText, reqId);
+    const aiData = await validateWithRepair(responseText, provider, reqId);
 
     if (aiData.components.length > 0) {
         logger.info(reqId, 'AI_FOUND', { count: aiData.components.length, types: aiData.components.map(c => c.type).join(',') });
     }
 
-    logger.info(reqId, 'EXTRACT_START', { count: aiData.components.length, timeout: `${TIMEOUTS.extraction}ms` });
+    return aiData;
+};
 
-    const enrichedComponents = await extractSnippetsFromPage(aiData.components, page, reqId);
-    const uniqueComponents = removeDuplicates(enrichedComponents, reqId);
+// ─────────────────────────────────────────────────────────────────────────────
+// Hybrid Detection (AI + Patterns)
+// ─────────────────────────────────────────────────────────────────────────────
 
-    logger.success(reqId, 'AI_DETECT_DONE', { found: aiData.found, componentCount: uniqueComponents.length }, t0);
+const runHybridDetection = async (
+    html: string,
+    frames: FrameContent[],
+    url: string,
+    screenshot: string | undefined,
+    page: Page,
+    provider: AIProvider,
+    evidence: EvidenceContext,
+    reqId: string,
+    onComponent?: DetectionOptions['onComponent']
+): Promise<DetectionResult> => {
+    const t0 = Date.now();
+    logger.info(reqId, 'HYBRID_DETECT_START', { url });
+
+    const [aiOutcome, patternComponents] = await Promise.all([
+        requestAIComponents(html, frames, url, screenshot, provider, evidence, reqId).then(
+            data => ({ ok: true as const, data }),
+            (err: unknown) => ({ ok: false as const, err })
+        ),
+        Promise.resolve(findPatternComponents(html, frames, reqId)),
+    ]);
+
+    if (!aiOutcome.ok) {
+        logger.error(reqId, 'HYBRID_AI_ERR', aiOutcome.err as Error, { url, fallback: 'patterns' });
+        return runPatternDetection(html, frames, url, page, evidence, reqId, onComponent);
+    }
+
+    const merged = withSignalComponents(mergeComponents(aiOutcome.data.components, patternComponents, reqId), evidence, reqId);
+    const enriched = await extractSnippetsFromPage(merged, page, reqId, onComponent);
+    const unique = scoreComponents(removeDuplicates(enriched, reqId), evidence);
+    const found = aiOutcome.data.found || unique.length > 0;
+
+    logger.success(reqId, 'HYBRID_DETECT_DONE', { found, count: unique.length, agreed: unique.filter(c => c.detectedBy?.length === 2).length }, t0);
+
+    return { success: true, url, found, components: unique, detectionMethod: 'hybrid' };
+};
+
+/**
+ * Reconcile AI and pattern findings. AI components are kept as-is (their
+ * selectors are usually more precise); pattern findings either confirm an AI
+ * component of the same kind or are appended to fill gaps the model missed.
+ */
+const mergeComponents = (aiComponents: AuthComponent[], patternComponents: AuthComponent[], reqId: string): AuthComponent[] => {
+    const merged: AuthComponent[] = aiComponents.map(c => ({ ...c, details: { ...c.details }, detectedBy: ['ai'] }));
+    const confirm = (c: AuthComponent, pc: AuthComponent) => {
+        c.detectedBy = ['ai', 'pattern'];
+        c.evidence = [...(c.evidence || []), ...(pc.evidence || [])];
+    };
+
+    for (const pc of patternComponents) {
+        if (pc.type === 'oauth') {
+            const patternProviders = (pc.details.providers || []).map(canonicalProviderId);
+            const aiOauth = merged.filter(c => c.type === 'oauth' && c.detectedBy?.includes('ai'));
+            const aiProviders = new Set(aiOauth.flatMap(c => (c.details.providers || []).map(canonicalProviderId)));
+
+            aiOauth
+                .filter(c => (c.details.providers || []).some(p => patternProviders.includes(canonicalProviderId(p))))
+                .forEach(c => confirm(c, pc));
+
+            const missing = patternProviders.filter(p => !aiProviders.has(p));
+            if (missing.length > 0) {
+                merged.push({ ...pc, details: { ...pc.details, providers: missing }, detectedBy: ['pattern'] });
+            }
+            continue;
+        }
+
+        const match = merged.find(c =>
+            c.type === pc.type &&
+            c.detectedBy?.includes('ai') &&
+            (!c.details.kind || !pc.details.kind || c.details.kind === pc.details.kind) &&
+            (pc.type !== 'passwordless' || !c.details.method || normalizeMethod(c.details.method).includes(normalizeMethod(pc.details.method || '')))
+        );
+
+        if (match) {
+            confirm(match, pc);
+            if (pc.details.fields) {
+                match.details.fields = [...new Set([...(match.details.fields || []), ...pc.details.fields])];
+            }
+        } else {
+            merged.push({ ...pc, detectedBy: ['pattern'] });
+        }
+    }
+
+    logger.info(reqId, 'HYBRID_MERGE', {
+        ai: aiComponents.length,
+        pattern: patternComponents.length,
+        merged: merged.length,
+        patternOnly: merged.filter(c => c.detectedBy?.length === 1 && c.detectedBy[0] === 'pattern').length,
+    });
 
-    return { success: true, url, found: aiData.found, components: uniqueComponents, detectionMethod: 'ai' };
+    return merged;
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // HTML Processing
 // ─────────────────────────────────────────────────────────────────────────────
 
-const extractRelevantSections = (html: string, reqId: string): string => {
-    logger.info(reqId, 'HTML_EXTRACT_START', { originalKB: `${Math.round(html.length / 1024)}KB` });
-
-    const sections: string[] = [];
+const collectPatternHits = (rawHtml: string): Map<string, string[]> => {
+    const hits = new Map<string, string[]>();
+    const html = stripNonContent(rawHtml);
 
     extractionPatterns.forEach(({ id, pattern, filterFn }) => {
         pattern.lastIndex = 0;
         const matches = html.match(pattern);
         if (matches) {
             const filtered = filterFn ? matches.filter(filterFn) : matches;
-            sections.push(...filtered);
-            logger.info(reqId, 'HTML_MATCH', { pattern: id, found: filtered.length });
+            if (filtered.length > 0) hits.set(id, filtered);
         }
     });
 
+    return hits;
+};
+
+const extractRelevantSections = (html: string, patternHits: Map<string, string[]>, reqId: string): string => {
+    logger.info(reqId, 'HTML_EXTRACT_START', { originalKB: `${Math.round(html.length / 1024)}KB` });
+
+    const sections: string[] = [];
+
+    patternHits.forEach((matches, id) => {
+        sections.push(...matches);
+        logger.info(reqId, 'HTML_MATCH', { pattern: id, found: matches.length });
+    });
+
     let result = [...new Set(sections)].join('\n\n');
 
     if (result.length < HTML_LIMITS.minSnippet) {
@@ -158,16 +398,28 @@ const extractRelevantSections = (html: string, reqId: string): string => {
     return result;
 };
 
-const buildPrompt = (url: string, html: string, hasScreenshot: boolean): string => `You are an expert at detecting authentication components on websites.
+const buildPrompt = (url: string, html: string, hasScreenshot: boolean, networkSignals: NetworkAuthSignal[]): string => `You are an expert at detecting authentication components on websites.
 
 URL: ${url}
-
+${networkSignals.length ? `
+NETWORK SIGNALS (auth-related requests made by the page; use them as hints, selectors must still come from the HTML):
+${networkSignals.slice(0, MAX_PROMPT_NETWORK_SIGNALS).map(s => `- ${s.kind}${s.provider ? ` [${s.provider}]` : ''}: ${s.method} ${s.url}${s.detail ? ` (${s.detail})` : ''}`).join('\n')}
+` : ''}
 TASK: Find ALL authentication methods. Return Playwright selectors for each.
 
 TYPES:
 1. **traditional** - Login forms with email/password, or "Sign in"/"Log in" buttons/links
-2. **oauth** - Social login (Google, Facebook, GitHub, etc.) - must mention provider name
+2. **oauth** - Social/identity provider login - must mention provider name; use these ids where they apply: ${IDENTITY_PROVIDERS.map(p => p.id).join(', ')}
 3. **passwordless** - Magic links, OTP, passkeys, WebAuthn
+4. **sso** - Enterprise single sign-on ("Sign in with SSO", SAML, work/company account) - kind: saml | oidc | enterprise
+5. **mfa** - Second-factor prompts (authenticator code, SMS code, security key) - kind: totp | sms | email | push | security-key | backup-code
+6. **registration** - Sign-up / create-account forms and links
+7. **recovery** - Forgot password, reset or account recovery links/forms - kind: password-reset | username-recovery | account-recovery
+8. **captcha** - CAPTCHA or bot-check gates - kind: recaptcha | hcaptcha | turnstile | arkose | custom
+
+Set "intent" to "login", "signup" or "both" when a component clearly serves one of them.
+
+Sections marked \`<!-- IFRAME CONTENT (url) -->\` come from embedded frames (Auth0 Lock, Okta widgets, One Tap, hosted checkouts). Write selectors for them as usual; they are resolved inside the matching frame.
 
 SELECTOR TIPS:
 - Use text: \`button:has-text("Continue with Google")\`
@@ -180,7 +432,8 @@ OUTPUT FORMAT (JSON only):
   "found": true,
   "components": [
     { "type": "traditional", "details": { "fields": ["email", "password"], "playwrightSelector": "form:has(input[type='password'])" } },
-    { "type": "oauth", "details": { "providers": ["google"], "playwrightSelector": "button:has-text('Sign in with Google')" } }
+    { "type": "oauth", "details": { "providers": ["google"], "intent": "login", "playwrightSelector": "button:has-text('Sign in with Google')" } },
+    { "type": "recovery", "details": { "kind": "password-reset", "playwrightSelector": "a:has-text('Forgot password')" } }
   ]
 }
 
@@ -193,47 +446,147 @@ Return ONLY valid JSON:`;
 // AI Response Parsing
 // ─────────────────────────────────────────────────────────────────────────────
 
-const parseAIOutput = (text: string, reqId: string): AIDetectionResponse => {
-    logger.info(reqId, 'PARSE_START', { len: text.length });
+/**
+ * Parse and validate model output. On schema problems the model gets up to
+ * `AI_REPAIR_ATTEMPTS` chances to fix its answer; whatever still fails is
+ * dropped per component rather than discarding the whole response.
+ */
+const validateWithRepair = async (text: string, provider: AIProvider, reqId: string): Promise<AIDetectionResponse> => {
+    let best = parseAIOutput(text, reqId);
+    let lastText = text;
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) throw new Error('No JSON in AI response');
+    for (let attempt = 1; attempt <= AI_REPAIR_ATTEMPTS && best.issues.length > 0; attempt++) {
+        logger.warn(reqId, 'AI_REPAIR_START', 'AI output failed validation, requesting repair', {
+            attempt,
+            issues: best.issues.slice(0, 5).map(i => `${i.path}: ${i.message}`),
+        });
 
-    const cleaned = jsonMatch[0].replace(/,(\s*[}\]])/g, '$1').replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+        try {
+            const repairedText = await withTimeout(
+                provider.generate({ prompt: buildRepairPrompt(lastText, best.issues) }),
+                TIMEOUTS.aiApi,
+                'AI repair call'
+            );
+            const repaired = parseAIOutput(repairedText, reqId);
+            lastText = repairedText;
+
+            if (repaired.parsed && (!best.parsed || repaired.response.components.length >= best.response.components.length)) {
+                best = repaired;
+            }
+            logger.info(reqId, 'AI_REPAIR_DONE', { attempt, remainingIssues: repaired.issues.length });
+        } catch (err) {
+            logger.error(reqId, 'AI_REPAIR_ERR', err as Error, { attempt });
+        }
+    }
+
+    if (!best.parsed) throw new Error(best.issues[0]?.message || 'JSON parse failed');
+
+    if (best.droppedComponents > 0) {
+        logger.warn(reqId, 'AI_COMPONENTS_DROPPED', 'Invalid components removed', { dropped: best.droppedComponents, kept: best.response.components.length });
+    }
+
+    return best.response;
+};
+
+const parseAIOutput = (text: string, reqId: string): AIValidationResult & { parsed: boolean } => {
+    logger.info(reqId, 'PARSE_START', { len: text.length });
 
     try {
-        const data = JSON.parse(cleaned);
-        logger.success(reqId, 'PARSE_OK', { components: data.components?.length || 0 });
-        return { found: data.found || false, components: Array.isArray(data.components) ? data.components : [] };
+        const result = validateAIResponse(parseAIJSON(text));
+        logger.success(reqId, 'PARSE_OK', { components: result.response.components.length, issues: result.issues.length });
+        return { ...result, parsed: true };
     } catch (e) {
         logger.error(reqId, 'PARSE_ERR', e as Error, { preview: text.slice(0, 200) });
-        throw new Error('JSON parse failed');
+        return {
+            response: { found: false, components: [] },
+            issues: [{ path: '$', message: e instanceof Error ? e.message : 'JSON parse failed' }],
+            droppedComponents: 0,
+            parsed: false,
+        };
     }
 };
 
+const buildRepairPrompt = (previous: string, issues: SchemaIssue[]): string => `Your previous answer did not match the required JSON schema.
+
+SCHEMA:
+${AI_RESPONSE_SCHEMA}
+
+VALIDATION ERRORS:
+${issues.slice(0, 20).map(i => `- ${i.path}: ${i.message}`).join('\n')}
+
+PREVIOUS ANSWER:
+${previous.slice(0, 6000)}
+
+Fix every error. Remove components you cannot fix. Return ONLY valid JSON:`;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Playwright Snippet Extraction
 // ─────────────────────────────────────────────────────────────────────────────
 
-const extractSnippetsFromPage = async (components: AuthComponent[], page: Page, reqId: string): Promise<AuthComponent[]> => {
+const extractSnippetsFromPage = async (
+    components: AuthComponent[],
+    page: Page,
+    reqId: string,
+    onComponent?: DetectionOptions['onComponent']
+): Promise<AuthComponent[]> => {
     logger.info(reqId, 'SNIPPET_EXTRACT_START', { count: components.length });
 
     const extractOne = async (comp: AuthComponent): Promise<AuthComponent> => {
         const sel = comp.details.playwrightSelector;
-        if (!sel) return { ...comp, snippet: `<!-- ${comp.type} detected, no selector -->` };
 
-        try {
-            logger.info(reqId, 'TRY_SELECTOR', { type: comp.type, selector: sel });
-            const html = await trySelector(page, sel, reqId);
+        const withEvidence = (detail: string, weight: number): DetectionEvidence[] =>
+            [...(comp.evidence || []), { source: 'selector', detail, weight }];
 
-            if (html) {
-                logger.success(reqId, 'SELECTOR_OK', { type: comp.type, len: html.length });
-                return { ...comp, snippet: truncate(html) };
+        try {
+            if (sel) {
+                logger.info(reqId, 'TRY_SELECTOR', { type: comp.type, selector: sel, frame: comp.frameUrl });
+                const match = await trySelector(page, sel, reqId, comp.frameUrl);
+
+                if (match) {
+                    logger.success(reqId, 'SELECTOR_OK', { type: comp.type, len: match.html.length, visible: match.visible, matches: match.matchCount });
+                    return {
+                        ...comp,
+                        snippet: truncate(match.html),
+                        preview: await buildSnippetPreview(match.element, reqId),
+                        ...await captureElementVisuals(match.element, reqId),
+                        selector: await stabilizeSelector(match.frame, match.element, sel, match.matchCount, reqId),
+                        frameUrl: frameUrlOf(page, match),
+                        evidence: match.visible
+                            ? withEvidence(`Selector matched a visible element: ${sel}`, EVIDENCE_WEIGHTS.selectorVisible)
+                            : withEvidence(`Selector matched a hidden element: ${sel}`, EVIDENCE_WEIGHTS.selectorHidden),
+                    };
+                }
+
+                logger.warn(reqId, 'SELECTOR_MISS', 'Trying fallback', { type: comp.type });
+            } else {
+                // Components found from network or runtime signals only
+                logger.info(reqId, 'SELECTOR_NONE', { type: comp.type, message: 'Trying fallback' });
             }
 
-            logger.warn(reqId, 'SELECTOR_MISS', 'Trying fallback', { type: comp.type });
             const fallback = await runFallbackExtraction(page, comp, reqId);
-            return { ...comp, snippet: fallback };
+            if (fallback.match) {
+                return {
+                    ...comp,
+                    snippet: fallback.snippet,
+                    preview: await buildSnippetPreview(fallback.match.element, reqId),
+                    ...await captureElementVisuals(fallback.match.element, reqId),
+                    selector: await stabilizeSelector(fallback.match.frame, fallback.match.element, fallback.match.selector, fallback.match.matchCount, reqId),
+                    frameUrl: frameUrlOf(page, fallback.match),
+                    evidence: withEvidence(
+                        sel ? `Selector missed; fallback matched: ${fallback.match.selector}` : `Fallback matched: ${fallback.match.selector}`,
+                        EVIDENCE_WEIGHTS.fallbackMatch
+                    ),
+                };
+            }
+
+            if (!sel) return { ...comp, snippet: `<!-- ${comp.type} detected, no selector -->` };
+
+            return {
+                ...comp,
+                snippet: fallback.snippet,
+                selector: { original: sel, matchCount: 0, verified: false },
+                evidence: withEvidence(`No element matched: ${sel}`, EVIDENCE_WEIGHTS.selectorMissing),
+            };
         } catch (err) {
             logger.error(reqId, 'EXTRACT_ERR', err as Error, { type: comp.type, selector: sel });
             return { ...comp, snippet: `<!-- ${comp.type} detected (error) -->` };
@@ -241,7 +594,10 @@ const extractSnippetsFromPage = async (components: AuthComponent[], page: Page,
     };
 
     const results = await Promise.race([
-        Promise.all(components.map(extractOne)),
+        Promise.all(components.map(comp => extractOne(comp).then(extracted => {
+            onComponent?.(extracted);
+            return extracted;
+        }))),
         new Promise<AuthComponent[]>(resolve => setTimeout(() => {
             logger.warn(reqId, 'EXTRACT_TIMEOUT', 'Partial results');
             resolve(components.map(c => ({ ...c, snippet: `<!-- ${c.type} detected (timeout) -->` })));
@@ -254,18 +610,57 @@ const extractSnippetsFromPage = async (components: AuthComponent[], page: Page,
     return results;
 };
 
-const trySelector = async (page: Page, selector: string, reqId: string): Promise<string | null> => {
+interface SelectorMatch {
+    selector: string;
+    /** Frame the selector resolved in (the main frame for top-level matches) */
+    frame: Frame;
+    /** The element the snippet was taken from */
+    element: Locator;
+    html: string;
+    visible: boolean;
+    matchCount: number;
+}
+
+interface FallbackResult {
+    snippet: string;
+    match?: SelectorMatch;
+}
+
+/**
+ * Resolve a selector, preferring the first visible match over `.first()` so
+ * hidden duplicates (mobile menus, templates) are skipped. Frames are
+ * searched in order: `frameUrl` (when given), the main frame, then the rest.
+ */
+const trySelector = async (page: Page, selector: string, reqId: string, frameUrl?: string): Promise<SelectorMatch | null> => {
     try {
         if (page.isClosed()) {
             logger.warn(reqId, 'PAGE_CLOSED', 'Skipping', { selector });
             return null;
         }
 
-        const loc = page.locator(selector).first();
-        await loc.waitFor({ state: 'visible', timeout: TIMEOUTS.selector }).catch(() => { });
+        const frames = orderedFrames(page, frameUrl);
+        let frame = await firstFrameWithMatch(frames, selector);
+        if (!frame) {
+            // Nothing yet anywhere: give the preferred frame time to render
+            await frames[0].locator(selector).first().waitFor({ state: 'visible', timeout: TIMEOUTS.selector }).catch(() => { });
+            frame = await firstFrameWithMatch(frames, selector);
+        }
+        if (!frame) return null;
 
-        if ((await loc.count()) === 0) return null;
-        return await loc.evaluate((el: Element) => el.outerHTML);
+        const all = frame.locator(selector);
+        const matchCount = await all.count();
+        if (matchCount === 0) return null;
+
+        let element = all.first();
+        for (let i = 0; i < Math.min(matchCount, MAX_VISIBILITY_PROBES); i++) {
+            if (await all.nth(i).isVisible()) {
+                element = all.nth(i);
+                break;
+            }
+        }
+
+        const html = await element.evaluate((el: Element) => el.outerHTML);
+        return { selector, frame, element, html, visible: await element.isVisible(), matchCount };
     } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
         if (!msg.includes('closed')) logger.warn(reqId, 'SELECTOR_ERR', msg, { selector });
@@ -273,24 +668,46 @@ const trySelector = async (page: Page, selector: string, reqId: string): Promise
     }
 };
 
+const orderedFrames = (page: Page, frameUrl?: string): Frame[] => {
+    const main = page.mainFrame();
+    const preferred = frameUrl ? page.frames().find(f => f !== main && f.url() === frameUrl) : undefined;
+    const rest = page.frames().filter(f => f !== main && f !== preferred && !f.isDetached());
+    return [...(preferred ? [preferred] : []), main, ...rest].slice(0, MAX_FRAMES_SEARCHED);
+};
+
+const firstFrameWithMatch = async (frames: Frame[], selector: string): Promise<Frame | undefined> => {
+    for (const frame of frames) {
+        if (await frame.locator(selector).count().catch(() => 0) > 0) return frame;
+    }
+    return undefined;
+};
+
+const frameUrlOf = (page: Page, match: SelectorMatch): string | undefined =>
+    match.frame === page.mainFrame() ? undefined : match.frame.url();
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Fallback Extraction Strategies
 // ─────────────────────────────────────────────────────────────────────────────
 
-const runFallbackExtraction = async (page: Page, comp: AuthComponent, reqId: string): Promise<string> => {
+const runFallbackExtraction = async (page: Page, comp: AuthComponent, reqId: string): Promise<FallbackResult> => {
     logger.info(reqId, 'FALLBACK_START', { type: comp.type });
 
-    const handlers: Record<string, () => Promise<string>> = {
+    const handlers: Record<AuthComponentType, () => Promise<FallbackResult>> = {
         oauth: () => oauthFallback(page, comp, reqId),
-        traditional: () => traditionalFallback(page, reqId),
+        traditional: () => traditionalFallback(page, comp, reqId),
         passwordless: () => passwordlessFallback(page, comp, reqId),
+        sso: () => firstMatchFallback(page, comp, SELECTOR_FALLBACKS.sso, reqId),
+        mfa: () => firstMatchFallback(page, comp, SELECTOR_FALLBACKS.mfa, reqId),
+        registration: () => firstMatchFallback(page, comp, SELECTOR_FALLBACKS.registration, reqId),
+        recovery: () => firstMatchFallback(page, comp, SELECTOR_FALLBACKS.recovery, reqId),
+        captcha: () => firstMatchFallback(page, comp, SELECTOR_FALLBACKS.captcha, reqId),
     };
 
     const handler = handlers[comp.type];
-    return handler ? handler() : `<!-- ${comp.type} (fallback failed) -->`;
+    return handler ? handler() : { snippet: `<!-- ${comp.type} (fallback failed) -->` };
 };
 
-const oauthFallback = async (page: Page, comp: AuthComponent, reqId: string): Promise<string> => {
+const oauthFallback = async (page: Page, comp: AuthComponent, reqId: string): Promise<FallbackResult> => {
     const providers = comp.details.providers || [];
     const t0 = Date.now();
 
@@ -299,94 +716,186 @@ const oauthFallback = async (page: Page, comp: AuthComponent, reqId: string): Pr
     for (const provider of providers) {
         if (Date.now() - t0 > TIMEOUTS.fallbackTotal) break;
 
-        const pCap = provider.charAt(0).toUpperCase() + provider.slice(1).toLowerCase();
-        const selectors = [
-            `button:has-text("${pCap}")`, `a:has-text("${pCap}")`,
-            `button:has-text("Sign in with ${pCap}")`, `a:has-text("Sign in with ${pCap}")`,
-            `button:has-text("Continue with ${pCap}")`, `[data-provider="${provider.toLowerCase()}"]`,
-        ];
-
-        for (const sel of selectors) {
+        for (const sel of providerSelectors(provider)) {
             if (Date.now() - t0 > TIMEOUTS.fallbackTotal) break;
-            const html = await tryWithTimeout(trySelector(page, sel, reqId), TIMEOUTS.fallbackPerAttempt);
-            if (html) {
+            const match = await tryWithTimeout(trySelector(page, sel, reqId, comp.frameUrl), TIMEOUTS.fallbackPerAttempt);
+            if (match) {
                 logger.success(reqId, 'OAUTH_FALLBACK_OK', { provider, selector: sel, time: `${Date.now() - t0}ms` });
-                return html;
+                return { snippet: match.html, match };
             }
         }
     }
 
     logger.warn(reqId, 'OAUTH_FALLBACK_FAIL', 'No match', { time: `${Date.now() - t0}ms`, providers: providers.join(',') });
-    return `<!-- OAuth: ${providers.join(', ')} (extraction timeout: ${Date.now() - t0}ms) -->`;
+    return { snippet: `<!-- OAuth: ${providers.join(', ')} (extraction timeout: ${Date.now() - t0}ms) -->` };
 };
 
-const traditionalFallback = async (page: Page, reqId: string): Promise<string> => {
+const traditionalFallback = async (page: Page, comp: AuthComponent, reqId: string): Promise<FallbackResult> => {
     const selectors = [
         'form:has(input[type="password"])', 'a:has-text("Sign in")', 'a:has-text("Log in")', 'a:has-text("Login")',
         'button:has-text("Sign in")', 'button:has-text("Log in")', 'a[href*="login"]', 'a[href*="signin"]',
     ];
 
     for (const sel of selectors) {
-        const html = await trySelector(page, sel, reqId);
-        if (html) return truncate(html);
+        const match = await trySelector(page, sel, reqId, comp.frameUrl);
+        if (match) return { snippet: truncate(match.html), match };
     }
-    return '<!-- Traditional login (extraction failed) -->';
+    return { snippet: '<!-- Traditional login (extraction failed) -->' };
 };
 
-const passwordlessFallback = async (page: Page, comp: AuthComponent, reqId: string): Promise<string> => {
+const passwordlessFallback = async (page: Page, comp: AuthComponent, reqId: string): Promise<FallbackResult> => {
     const method = comp.details.method || '';
     const selectors = [
-        `button:has-text("${method}")`, 'button:has-text("passkey")', 'button:has-text("magic link")',
-        'input[inputmode="numeric"]', 'webauthn-subtle',
+        ...(method ? [`button:has-text("${method}")`] : []), 'button:has-text("passkey")', 'a:has-text("passkey")',
+        'button:has-text("security key")', 'button:has-text("magic link")', 'input[inputmode="numeric"]', 'webauthn-subtle',
+        'input[autocomplete*="webauthn"]',
+        // Conditional UI without a webauthn token offers passkeys in the identifier field's autofill
+        ...(comp.details.kind === 'conditional-ui' ? ['input[autocomplete~="username"]', 'input[type="email"]'] : []),
     ];
 
     for (const sel of selectors) {
-        const html = await trySelector(page, sel, reqId);
-        if (html) return truncate(html);
+        const match = await trySelector(page, sel, reqId, comp.frameUrl);
+        if (match) return { snippet: truncate(match.html), match };
+    }
+    return { snippet: `<!-- Passwordless (${method}) (extraction failed) -->` };
+};
+
+const SELECTOR_FALLBACKS = {
+    sso: [
+        'button:has-text("SSO")', 'a:has-text("SSO")', 'button:has-text("single sign-on")', 'a:has-text("single sign-on")',
+        'button:has-text("Enterprise")', 'a[href*="sso"]', 'a[href*="saml"]',
+    ],
+    mfa: [
+        'input[autocomplete="one-time-code"]', 'form:has(input[autocomplete="one-time-code"])', 'input[name*="otp" i]',
+        'input[name*="totp" i]', 'text=/two-factor|2fa|authenticator|verification code/i',
+    ],
+    registration: [
+        'form:has(input[autocomplete="new-password"])', 'a:has-text("Sign up")', 'button:has-text("Sign up")',
+        'a:has-text("Create account")', 'a:has-text("Register")', 'a[href*="signup"]', 'a[href*="register"]',
+    ],
+    recovery: [
+        'a:has-text("Forgot")', 'button:has-text("Forgot")', 'a:has-text("Reset password")', 'a[href*="forgot"]',
+        'a[href*="reset"]', 'a[href*="recover"]',
+    ],
+    captcha: [
+        'iframe[src*="recaptcha"]', '.g-recaptcha', 'iframe[src*="hcaptcha"]', '.h-captcha', '.cf-turnstile',
+        'iframe[src*="challenges.cloudflare.com"]', 'iframe[src*="arkoselabs"]', '[id*="captcha" i]',
+    ],
+};
+
+const firstMatchFallback = async (page: Page, comp: AuthComponent, selectors: string[], reqId: string): Promise<FallbackResult> => {
+    for (const sel of selectors) {
+        const match = await tryWithTimeout(trySelector(page, sel, reqId, comp.frameUrl), TIMEOUTS.fallbackPerAttempt);
+        if (match) return { snippet: truncate(match.html), match };
     }
-    return `<!-- Passwordless (${method}) (extraction failed) -->`;
+    const kind = comp.details.kind ? ` (${comp.details.kind})` : '';
+    return { snippet: `<!-- ${comp.type}${kind} (extraction failed) -->` };
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Pattern-Based Detection (Fallback)
 // ─────────────────────────────────────────────────────────────────────────────
 
-const runPatternDetection = async (html: string, url: string, page: Page, reqId: string): Promise<DetectionResult> => {
+const runPatternDetection = async (
+    html: string,
+    frames: FrameContent[],
+    url: string,
+    page: Page,
+    evidence: EvidenceContext,
+    reqId: string,
+    onComponent?: DetectionOptions['onComponent']
+): Promise<DetectionResult> => {
     logger.info(reqId, 'PATTERN_DETECT_START', { url });
 
-    const components: AuthComponent[] = [];
+    const components = withSignalComponents(findPatternComponents(html, frames, reqId), evidence, reqId);
+    const enriched = await extractSnippetsFromPage(components, page, reqId, onComponent);
+    const unique = scoreComponents(removeDuplicates(enriched, reqId), evidence);
 
-    // Traditional auth detection
-    if (/<form[^>]*>[\s\S]*?<input[^>]*type=["']password["'][\s\S]*?<\/form>/i.test(html) ||
-        /(?:sign\s*in|log\s*in|login)/i.test(html)) {
-        components.push({ type: 'traditional', details: { fields: ['email', 'password'], playwrightSelector: 'form:has(input[type="password"])' } });
-    }
+    logger.success(reqId, 'PATTERN_DETECT_DONE', { found: unique.length > 0, count: unique.length });
 
-    // OAuth detection
-    const oauthProviders = ['google', 'facebook', 'github', 'twitter', 'apple', 'microsoft', 'linkedin'];
-    const foundProviders = oauthProviders.filter(p => new RegExp(`(?:sign|log|continue).*${p}|${p}.*(?:sign|log|continue)`, 'i').test(html));
-    if (foundProviders.length > 0) {
-        components.push({ type: 'oauth', details: { providers: foundProviders, playwrightSelector: `button:has-text("${foundProviders[0]}")` } });
-    }
+    return { success: true, url, found: unique.length > 0, components: unique, detectionMethod: 'pattern' };
+};
+
+const findPatternComponents = (html: string, frames: FrameContent[], reqId: string): AuthComponent[] => {
+    const components = [
+        ...detectFromDOM(html),
+        ...frames.flatMap(frame => detectFromDOM(frame.html).map(c => ({ ...c, frameUrl: frame.url }))),
+    ];
+
+    logger.info(reqId, 'PATTERN_MATCHES', { count: components.length, types: components.map(c => c.type).join(',') });
+
+    return components;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scrape Signal Components
+// ─────────────────────────────────────────────────────────────────────────────
 
-    // Passwordless detection
-    if (/passkey|webauthn|magic.*link|otp|one.*time/i.test(html)) {
-        const method = /passkey/i.test(html) ? 'passkey' : /magic.*link/i.test(html) ? 'magic-link' : 'otp';
-        components.push({ type: 'passwordless', details: { method, playwrightSelector: `button:has-text("${method}")` } });
+/**
+ * Append components that only scrape-time signals revealed: OAuth providers
+ * whose SDK or authorize endpoint was requested, and passkeys the WebAuthn
+ * probe saw in use. They carry no selector, so extraction locates them with
+ * the per-type fallbacks; scoring adds the network/runtime evidence.
+ */
+const withSignalComponents = (components: AuthComponent[], evidence: EvidenceContext, reqId: string): AuthComponent[] => {
+    const added: AuthComponent[] = [];
+
+    const knownProviders = new Set(components.flatMap(c => (c.details.providers || []).map(canonicalProviderId)));
+    const networkProviders = new Set(evidence.networkSignals
+        .filter(s => s.provider && (s.kind === 'identity-sdk' || s.kind === 'oauth-authorize'))
+        .map(s => s.provider!));
+    for (const p of networkProviders) {
+        if (!knownProviders.has(p)) added.push({ type: 'oauth', details: { providers: [p] }, detectedBy: ['pattern'] });
     }
 
-    const enriched = await extractSnippetsFromPage(components, page, reqId);
-    const unique = removeDuplicates(enriched, reqId);
+    const probe = evidence.webauthn;
+    const hasPasskey = components.some(c => c.type === 'passwordless' && c.details.method === 'passkey');
+    if (hasWebAuthnActivity(probe) && !hasPasskey) {
+        added.push({
+            type: 'passwordless',
+            details: {
+                method: 'passkey',
+                kind: probe.usage[0] ?? 'conditional-ui',
+                intent: probe.usage.includes('registration') ? (probe.usage.length > 1 ? 'both' : 'signup') : 'login',
+                ...(probe.webauthnInputs > 0 && { playwrightSelector: 'input[autocomplete*="webauthn"]' }),
+            },
+            detectedBy: ['pattern'],
+        });
+    }
 
-    logger.success(reqId, 'PATTERN_DETECT_DONE', { found: unique.length > 0, count: unique.length });
+    if (added.length > 0) {
+        logger.info(reqId, 'SIGNAL_COMPONENTS', { count: added.length, types: added.map(c => c.details.providers?.[0] ?? c.details.method).join(',') });
+    }
 
-    return { success: true, url, found: unique.length > 0, components: unique, detectionMethod: 'pattern' };
+    return [...components, ...added];
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Utilities
 // ─────────────────────────────────────────────────────────────────────────────
 
+const DETECTION_MODES: DetectionMode[] = ['ai', 'pattern', 'hybrid'];
+
+const resolveMode = (options: DetectionOptions, reqId: string): DetectionMode => {
+    const mode = options.mode ?? process.env['DETECTION_MODE']?.trim().toLowerCase();
+    if (!mode) return 'ai';
+    if (DETECTION_MODES.includes(mode as DetectionMode)) return mode as DetectionMode;
+
+    logger.warn(reqId, 'DETECTION_MODE_INVALID', `Unknown mode "${mode}", using "ai"`);
+    return 'ai';
+};
+
+const resolveProvider = (options: DetectionOptions, reqId: string): AIProvider | null => {
+    if (options.aiProvider !== undefined) return options.aiProvider;
+
+    try {
+        return getDefaultAIProvider();
+    } catch (err) {
+        logger.error(reqId, 'AI_PROVIDER_CONFIG_ERR', err as Error, { fallback: 'patterns' });
+        return null;
+    }
+};
+
 const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> =>
     Promise.race([promise, new Promise<never>((_, rej) => setTimeout(() => rej(new Error(`${label} timeout after ${ms}ms`)), ms))]);
 
@@ -398,6 +907,16 @@ const tryWithTimeout = async <T>(promise: Promise<T>, ms: number): Promise<T | n
     }
 };
 
+// Script/style bodies often contain words like "login" that are not UI
+const stripNonContent = (html: string): string =>
+    html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '').replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, '');
+
+/** Append child-frame HTML with provenance markers, for pattern hits and the AI prompt */
+const withFrameSections = (html: string, frames: FrameContent[]): string =>
+    frames.reduce((acc, frame) => `${acc}\n\n<!-- IFRAME CONTENT (${frame.url}) -->\n${frame.html}`, html);
+
+const normalizeMethod = (method: string): string => method.toLowerCase().replace(/[^a-z]/g, '');
+
 const truncate = (html: string): string => html.length > HTML_LIMITS.maxSnippet ? html.slice(0, HTML_LIMITS.maxSnippet) + '...' : html;
 
 const removeDuplicates = (components: AuthComponent[], reqId: string): AuthComponent[] => {
@@ -0,0 +1,397 @@
+/**
+ * DOM-Based Pattern Detector
+ *
+ * Parses the scraped HTML with cheerio and classifies forms, inputs, buttons
+ * and links by their attributes and visible text. Script/style content is
+ * ignored and every component gets a selector for its own element.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { AuthComponent, AuthIntent, DetectionEvidence } from '@/lib/types/auth.types';
+import { getIdentityProvider, matchProviderEndpoint, matchProviderMarker, matchProviderName, matchProviderSDKs, type IdentityProvider } from './identity-providers';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LIMITS = {
+    maxComponents: 12,
+    maxTextLength: 120,
+};
+
+const RULE_WEIGHTS = {
+    passwordForm: 0.55,
+    identifierForm: 0.35,
+    signInControl: 0.2,
+    oauthControl: 0.4,
+    oauthSdk: 0.15,
+    passkeyControl: 0.4,
+    webauthnInput: 0.5,
+    magicLinkControl: 0.35,
+    otpInput: 0.4,
+    mfaInput: 0.45,
+    ssoControl: 0.35,
+    signUpControl: 0.25,
+    registrationForm: 0.5,
+    recoveryControl: 0.3,
+    captchaWidget: 0.55,
+};
+
+const TEXT = {
+    signIn: /^(?:sign\s*in|log\s*in|login|sign\s*on|member login|account login)\b/i,
+    oauthIntent: /(?:sign|log)\s*(?:in|on|up)?\s*(?:with|via|using)|continue\s+with|connect\s+with/i,
+    passkey: /passkey|security key|webauthn|face id|touch id|windows hello/i,
+    magicLink: /magic\s*link|email me a (?:login |sign[-\s]?in )?(?:link|code)|send (?:me )?a (?:login |sign[-\s]?in )?link/i,
+    sso: /\bsso\b|single sign[-\s]?on|enterprise (?:login|sign[-\s]?in)|\bsaml\b|work or school account/i,
+    signUp: /^(?:sign\s*up|register|create (?:an |your |new )?account|join(?: now| free)?|get started)\b/i,
+    recovery: /forgot|reset (?:your )?password|recover (?:your )?account|trouble (?:signing|logging) in|can'?t (?:sign|log) in/i,
+    mfa: /two[-\s]?factor|2fa|two[-\s]?step|multi[-\s]?factor|authenticator app|verification code|security code/i,
+};
+
+const SIGNUP_HREF = /\/(?:signup|sign-up|sign_up|register|join|create-account)(?:[/?#.]|$)/i;
+const RECOVERY_HREF = /\/(?:forgot|reset|recover|password-reset|password_reset)/i;
+
+const CAPTCHA_WIDGETS = [
+    { kind: 'recaptcha', selector: '.g-recaptcha, iframe[src*="recaptcha"], [data-sitekey][class*="recaptcha"]' },
+    { kind: 'hcaptcha', selector: '.h-captcha, iframe[src*="hcaptcha.com"]' },
+    { kind: 'turnstile', selector: '.cf-turnstile, iframe[src*="challenges.cloudflare.com"]' },
+    { kind: 'arkose', selector: '[id*="arkose" i], iframe[src*="arkoselabs"], iframe[src*="funcaptcha"]' },
+];
+
+const AUTH_HREF = /\/(?:login|log-in|signin|sign-in|sign_in|auth|sso)(?:[/?#.]|$)/i;
+const AUTH_FORM_HINT = /login|log-in|signin|sign-in|sign_in|auth|session/i;
+
+type FieldKind = 'email' | 'username' | 'password' | 'phone' | 'otp';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Entry Point
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Detect auth components from raw HTML. Components come back tagged with
+ * `detectedBy: ['pattern']` and `dom:*` rule evidence.
+ */
+export const detectFromDOM = (html: string): AuthComponent[] => {
+    const $ = cheerio.load(html);
+    // SDK scripts are collected before script content is stripped
+    const sdkProviders = new Set(matchProviderSDKs($('script[src]').map((_, el) => $(el).attr('src') || '').get()).map(p => p.id));
+    $('script, style, noscript').remove();
+
+    const forms = findCredentialForms($);
+    const components = [
+        ...forms,
+        ...findOneTimeCodeInputs($),
+        // A bare "Sign in" link only matters when no credential form is on the page
+        ...findControls($, forms.length === 0, sdkProviders),
+        ...findCaptchas($),
+    ];
+
+    return components.slice(0, LIMITS.maxComponents);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Forms & Inputs
+// ─────────────────────────────────────────────────────────────────────────────
+
+const findCredentialForms = ($: CheerioAPI): AuthComponent[] => {
+    const components: AuthComponent[] = [];
+    const seen = new Set<Element>();
+
+    // Password fields, grouped by their form (or closest input-bearing container)
+    $('input[type="password"]').each((_, input) => {
+        if (isHidden($(input))) return;
+        const container = credentialContainer($, $(input));
+        const root = container.get(0);
+        if (!root || seen.has(root)) return;
+        seen.add(root);
+
+        const fields = collectFields($, container);
+        if (isRegistrationForm($, container)) {
+            components.push(component('registration', container, $, { fields, intent: 'signup' }, 'registration-form', RULE_WEIGHTS.registrationForm));
+        } else {
+            components.push(component('traditional', container, $, { fields, intent: 'login' }, 'password-form', RULE_WEIGHTS.passwordForm));
+        }
+    });
+
+    // Identifier-first forms: an email/username field in a form that looks like login
+    $('form').each((_, form) => {
+        if (seen.has(form) || isHidden($(form))) return;
+        const $form = $(form);
+        const fields = collectFields($, $form);
+        const hasIdentifier = fields.includes('email') || fields.includes('username');
+        const hint = [$form.attr('action'), $form.attr('id'), $form.attr('class'), $form.attr('name'), $form.attr('aria-label')].join(' ');
+        const submitText = $form.find('button, input[type="submit"]').map((__, el) => accessibleText($, $(el))).get().join(' ');
+
+        if (hasIdentifier && (AUTH_FORM_HINT.test(hint) || TEXT.signIn.test(submitText) || /^continue$|^next$/i.test(submitText.trim()))) {
+            seen.add(form);
+            components.push(component('traditional', $form, $, { fields, intent: 'login' }, 'identifier-form', RULE_WEIGHTS.identifierForm));
+        }
+    });
+
+    return components;
+};
+
+const findOneTimeCodeInputs = ($: CheerioAPI): AuthComponent[] => {
+    const otp = $('input[autocomplete="one-time-code"], input[name*="otp" i], input[id*="otp" i]')
+        .filter((_, el) => !isHidden($(el)))
+        .first();
+
+    if (otp.length === 0) return [];
+    const form = otp.parents('form').first();
+    const container = form.length ? form : otp;
+
+    // A code prompt that talks about a second factor is MFA, not a passwordless login
+    const context = `${container.text()} ${$('h1, h2, h3, label, p').text()}`;
+    if (TEXT.mfa.test(context)) {
+        const kind = /sms|text message|phone/i.test(context) ? 'sms' : /authenticator/i.test(context) ? 'totp' : /email/i.test(context) ? 'email' : 'totp';
+        return [component('mfa', container, $, { kind, fields: ['otp'] }, 'mfa-input', RULE_WEIGHTS.mfaInput)];
+    }
+    return [component('passwordless', container, $, { method: 'otp' }, 'otp-input', RULE_WEIGHTS.otpInput)];
+};
+
+/**
+ * Sign-up forms: a confirm-password field, `autocomplete="new-password"`, or
+ * a submit control that reads like account creation.
+ */
+const isRegistrationForm = ($: CheerioAPI, container: Cheerio<Element>): boolean => {
+    if (container.find('input[type="password"]').length > 1) return true;
+    if (container.find('input[autocomplete="new-password"]').length > 0 && container.find('input[autocomplete="current-password"]').length === 0) return true;
+
+    const submitText = container.find('button, input[type="submit"]').map((_, el) => accessibleText($, $(el))).get().join(' ');
+    return TEXT.signUp.test(submitText.trim());
+};
+
+/**
+ * Pick the element that best represents a credential form: the enclosing
+ * `<form>`, else the nearest ancestor that also holds another input.
+ */
+const credentialContainer = ($: CheerioAPI, input: Cheerio<Element>): Cheerio<Element> => {
+    const form = input.parents('form').first();
+    if (form.length) return form;
+
+    let current = input.parent();
+    while (current.length && !current.is('body')) {
+        if (current.find('input:not([type="hidden"])').length > 1) return current;
+        current = current.parent();
+    }
+    return input;
+};
+
+const collectFields = ($: CheerioAPI, container: Cheerio<Element>): FieldKind[] => {
+    const fields = new Set<FieldKind>();
+    container.find('input').each((_, el) => {
+        const kind = classifyInput($(el));
+        if (kind) fields.add(kind);
+    });
+    return [...fields];
+};
+
+const classifyInput = (input: Cheerio<Element>): FieldKind | null => {
+    const type = (input.attr('type') || 'text').toLowerCase();
+    if (['hidden', 'submit', 'button', 'checkbox', 'radio', 'image', 'reset'].includes(type) || isHidden(input)) return null;
+    if (type === 'password') return 'password';
+
+    const autocomplete = (input.attr('autocomplete') || '').toLowerCase();
+    const hints = [input.attr('name'), input.attr('id'), input.attr('aria-label'), input.attr('placeholder'), autocomplete].join(' ').toLowerCase();
+
+    if (autocomplete.includes('one-time-code') || /\botp\b|verification code/.test(hints)) return 'otp';
+    if (type === 'email' || autocomplete.includes('email') || /e-?mail/.test(hints)) return 'email';
+    if (type === 'tel' || /phone|mobile/.test(hints)) return 'phone';
+    if (autocomplete.includes('username') || /user(?:name)?|login|account|identifier/.test(hints)) return 'username';
+    return null;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Buttons & Links
+// ─────────────────────────────────────────────────────────────────────────────
+
+const findControls = ($: CheerioAPI, includeSignIn: boolean, sdkProviders: Set<string>): AuthComponent[] => {
+    const components: AuthComponent[] = [];
+    const oauthSeen = new Set<string>();
+    // One component per control rule; the first match on the page wins
+    const ruleSeen = new Set<string>(includeSignIn ? [] : ['sign-in-control']);
+    const once = (ruleId: string, build: () => AuthComponent): boolean => {
+        if (ruleSeen.has(ruleId)) return false;
+        ruleSeen.add(ruleId);
+        components.push(build());
+        return true;
+    };
+
+    $('button, a, [role="button"], [role="link"], input[type="submit"], input[type="button"], webauthn-subtle').each((_, el) => {
+        const $el = $(el);
+        if (isHidden($el)) return;
+
+        const text = accessibleText($, $el);
+        const href = $el.attr('href') || '';
+        const attrs = [href, $el.attr('data-provider'), $el.attr('id'), $el.attr('class'), $el.attr('data-testid')].join(' ').toLowerCase();
+
+        const provider = oauthProviderOf($el, text, attrs);
+
+        if (provider) {
+            if (oauthSeen.has(provider.id)) return;
+            oauthSeen.add(provider.id);
+            const comp = component('oauth', $el, $, { providers: [provider.id], intent: intentOf(text) }, 'oauth-control', RULE_WEIGHTS.oauthControl);
+            if (sdkProviders.has(provider.id)) {
+                comp.evidence.push({ source: 'pattern', detail: `dom:oauth-sdk:${provider.id}`, weight: RULE_WEIGHTS.oauthSdk });
+            }
+            components.push(comp);
+            return;
+        }
+
+        if ((el.tagName === 'webauthn-subtle' || TEXT.passkey.test(text)) &&
+            once('passkey-control', () => component('passwordless', $el, $, { method: 'passkey' }, 'passkey-control', RULE_WEIGHTS.passkeyControl))) return;
+
+        if (TEXT.magicLink.test(text) &&
+            once('magic-link-control', () => component('passwordless', $el, $, { method: 'magic-link' }, 'magic-link-control', RULE_WEIGHTS.magicLinkControl))) return;
+
+        if (TEXT.sso.test(text) &&
+            once('sso-control', () => component('sso', $el, $, { kind: /saml/i.test(text + attrs) ? 'saml' : 'enterprise', intent: 'login' }, 'sso-control', RULE_WEIGHTS.ssoControl))) return;
+
+        if ((TEXT.recovery.test(text) || (el.tagName === 'a' && RECOVERY_HREF.test(href))) &&
+            once('recovery-control', () => component('recovery', $el, $, { kind: /user\s*name/i.test(text) ? 'username-recovery' : 'password-reset' }, 'recovery-control', RULE_WEIGHTS.recoveryControl))) return;
+
+        if ((TEXT.signUp.test(text) || (el.tagName === 'a' && SIGNUP_HREF.test(href) && text.length > 0)) &&
+            once('sign-up-control', () => component('registration', $el, $, { intent: 'signup' }, 'sign-up-control', RULE_WEIGHTS.signUpControl))) return;
+
+        if (TEXT.signIn.test(text) || (el.tagName === 'a' && AUTH_HREF.test(href) && text.length > 0)) {
+            once('sign-in-control', () => component('traditional', $el, $, { fields: [], intent: 'login' }, 'sign-in-control', RULE_WEIGHTS.signInControl));
+        }
+    });
+
+    if (!ruleSeen.has('passkey-control')) {
+        const webauthnInput = $('input[autocomplete*="webauthn"]').first();
+        if (webauthnInput.length) {
+            components.push(component('passwordless', webauthnInput, $, { method: 'passkey' }, 'webauthn-autocomplete', RULE_WEIGHTS.webauthnInput));
+        }
+    }
+
+    return components;
+};
+
+const findCaptchas = ($: CheerioAPI): AuthComponent[] => {
+    for (const { kind, selector } of CAPTCHA_WIDGETS) {
+        const widget = $<Element, string>(selector).first();
+        if (widget.length) return [component('captcha', widget, $, { kind }, 'captcha-widget', RULE_WEIGHTS.captchaWidget)];
+    }
+    return [];
+};
+
+/**
+ * Registry provider behind a control: explicit `data-provider`, a link or
+ * form posting to its authorization endpoint, a brand button marker, or its
+ * name in sign-in-with text (or next to an oauth/social hint).
+ */
+const oauthProviderOf = ($el: Cheerio<Element>, text: string, attrs: string): IdentityProvider | undefined => {
+    const dataProvider = $el.attr('data-provider');
+    const named = matchProviderName(text);
+    const endpoint = $el.attr('href') || $el.attr('formaction') || $el.parents('form').first().attr('action');
+
+    return (dataProvider ? getIdentityProvider(dataProvider) : undefined) ||
+        (endpoint ? matchProviderEndpoint(endpoint, 'https://localhost/') : undefined) ||
+        matchProviderMarker(attrs) ||
+        (named && (TEXT.oauthIntent.test(text) || /oauth|social|sso|provider/.test(attrs)) ? named : undefined);
+};
+
+const intentOf = (text: string): AuthIntent => {
+    if (/sign\s*up|register|create/i.test(text)) return 'signup';
+    if (/sign\s*in|log\s*in|login/i.test(text)) return 'login';
+    return 'both';
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Selector Synthesis
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * CSS selector for a single element, preferring stable attributes and
+ * falling back to an `nth-of-type` path. Checked for uniqueness in the
+ * parsed document.
+ */
+export const buildElementSelector = ($: CheerioAPI, el: Cheerio<Element>): string => {
+    const node = el.get(0);
+    if (!node) return '';
+    const tag = node.tagName.toLowerCase();
+    const isUnique = (sel: string) => { try { return $(sel).length === 1; } catch { return false; } };
+
+    const candidates = [
+        el.attr('data-testid') && `[data-testid="${cssEscape(el.attr('data-testid')!)}"]`,
+        el.attr('id') && `#${cssIdent(el.attr('id')!)}`,
+        el.attr('name') && `${tag}[name="${cssEscape(el.attr('name')!)}"]`,
+        el.attr('aria-label') && `${tag}[aria-label="${cssEscape(el.attr('aria-label')!)}"]`,
+        tag === 'form' && el.attr('action') && `form[action="${cssEscape(el.attr('action')!)}"]`,
+        tag === 'a' && el.attr('href') && `a[href="${cssEscape(el.attr('href')!)}"]`,
+    ].filter((c): c is string => !!c);
+
+    const stable = candidates.find(isUnique);
+    if (stable) return stable;
+
+    const segments: string[] = [];
+    let current: Cheerio<Element> = el;
+    while (current.length) {
+        const curNode = current.get(0)!;
+        const curTag = curNode.tagName.toLowerCase();
+        if (curTag === 'html' || curTag === 'body') {
+            segments.unshift('body');
+            break;
+        }
+
+        const id = current.attr('id');
+        if (id && current !== el && isUnique(`#${cssIdent(id)}`)) {
+            segments.unshift(`#${cssIdent(id)}`);
+            break;
+        }
+
+        const sameTag = current.parent().children(curTag);
+        segments.unshift(sameTag.length > 1 ? `${curTag}:nth-of-type(${sameTag.index(curNode) + 1})` : curTag);
+        current = current.parent();
+    }
+
+    return segments.join(' > ');
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const component = (
+    type: AuthComponent['type'],
+    el: Cheerio<Element>,
+    $: CheerioAPI,
+    details: AuthComponent['details'],
+    ruleId: string,
+    weight: number
+): AuthComponent & { evidence: DetectionEvidence[] } => {
+    const evidence: DetectionEvidence[] = [{ source: 'pattern', detail: `dom:${ruleId}`, weight }];
+    return {
+        type,
+        details: { ...details, playwrightSelector: buildElementSelector($, el) },
+        detectedBy: ['pattern'],
+        evidence,
+    };
+};
+
+/**
+ * Approximate accessible name: aria-label, visible text, value, title, or
+ * the alt text of an inner image.
+ */
+const accessibleText = ($: CheerioAPI, el: Cheerio<Element>): string => {
+    const text = el.attr('aria-label') ||
+        el.text() ||
+        el.attr('value') ||
+        el.attr('title') ||
+        el.find('img[alt]').attr('alt') ||
+        '';
+    return text.replace(/\s+/g, ' ').trim().slice(0, LIMITS.maxTextLength);
+};
+
+const isHidden = (el: Cheerio<Element>): boolean =>
+    el.attr('type') === 'hidden' ||
+    el.attr('hidden') !== undefined ||
+    el.attr('aria-hidden') === 'true' ||
+    /display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attr('style') || '');
+
+const cssEscape = (value: string): string => value.replace(/["\\]/g, '\\$&');
+
+const cssIdent = (value: string): string => value.replace(/([^a-zA-Z0-9_-])/g, '\\$1').replace(/^(\d)/, '\\3$1 ');
@@ -0,0 +1,210 @@
+/**
+ * Identifier-First Flow Explorer
+ *
+ * Opt-in walk through multi-step logins (email first, then password, OTP or
+ * an SSO redirect). A synthetic identifier is typed and submitted; secrets
+ * are never entered and exploration stops at the first credential step.
+ */
+
+import { BrowserContext, Locator, Page } from 'playwright';
+import { logger } from './logger';
+import { detectFromDOM } from './dom-detector';
+import { matchProviderEndpoint } from './identity-providers';
+import type { AuthFlow, AuthFlowStep } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+const CONFIG = {
+    // Reserved domain (RFC 2606): cannot belong to a real account
+    PLACEHOLDER_EMAIL: 'auth-detector.probe@example.com',
+    PLACEHOLDER_USERNAME: 'auth-detector-probe',
+    MAX_STEPS: 3,
+    TIMEOUTS: {
+        NAVIGATION: 10000,
+        ACTION: 5000,
+        SETTLE: 1500,
+    },
+} as const;
+
+const SELECTORS = {
+    IDENTIFIER: [
+        'input[type="email"]',
+        'input[autocomplete~="username"]',
+        'input[autocomplete~="email"]',
+        'input[name*="email" i]',
+        'input[id*="email" i]',
+        'input[name*="user" i]',
+        'input[name*="login" i]',
+        'input[name="identifier" i]',
+    ].join(', '),
+    SECRET: 'input[type="password"], input[autocomplete="one-time-code"]',
+    SUBMIT: 'button[type="submit"], input[type="submit"], button:not([type])',
+    CONTINUE: 'button, [role="button"], input[type="button"]',
+} as const;
+
+const CONTINUE_TEXT = /^(?:continue|next|sign\s*in|log\s*in|submit|proceed)\b/i;
+const USERNAME_HINT = /user\s*name|login\s*id|\buser\b/i;
+
+/*============================================================================*
+ * EXPLORATION
+ *============================================================================*/
+
+/**
+ * Explore the login flow at `url` in a fresh page of `context` (the scrape
+ * page is left untouched for detection). No new step starts after
+ * `budgetMs`. Never throws; failures are reported through `stopReason`.
+ */
+export async function exploreLoginFlow(
+    context: BrowserContext,
+    url: string,
+    budgetMs: number,
+    requestId: string
+): Promise<AuthFlow> {
+    const flow: AuthFlow = { identifier: CONFIG.PLACEHOLDER_EMAIL, steps: [], stopReason: 'max-steps' };
+    const deadline = Date.now() + budgetMs;
+    let page: Page | undefined;
+
+    logger.info(requestId, 'FLOW_EXPLORE_START', { url, maxSteps: CONFIG.MAX_STEPS, budget: `${budgetMs}ms` });
+
+    try {
+        page = await context.newPage();
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: CONFIG.TIMEOUTS.NAVIGATION });
+        await page.waitForTimeout(CONFIG.TIMEOUTS.SETTLE);
+
+        const startOrigin = new URL(page.url()).origin;
+        flow.steps.push(await recordStep(page, 0, 'initial'));
+
+        for (let index = 1; index <= CONFIG.MAX_STEPS; index++) {
+            if (Date.now() > deadline) {
+                flow.stopReason = 'timeout';
+                break;
+            }
+
+            if (await hasVisible(page, SELECTORS.SECRET)) {
+                flow.stopReason = 'credential-step';
+                break;
+            }
+
+            const field = await findIdentifierField(page);
+            if (!field) {
+                flow.stopReason = 'no-identifier';
+                break;
+            }
+
+            const previous = flow.steps[flow.steps.length - 1];
+            flow.identifier = await submitIdentifier(page, field, requestId);
+
+            const step = await recordStep(page, index, 'submit-identifier');
+            if (step.url === previous.url && signature(step) === signature(previous)) {
+                flow.stopReason = 'no-progress';
+                break;
+            }
+            flow.steps.push(step);
+
+            if (new URL(step.url).origin !== startOrigin) {
+                flow.stopReason = 'external-redirect';
+                break;
+            }
+        }
+    } catch (error) {
+        flow.stopReason = 'error';
+        flow.error = error instanceof Error ? error.message : String(error);
+        logger.warn(requestId, 'FLOW_EXPLORE_FAILED', flow.error, { steps: flow.steps.length });
+    } finally {
+        await page?.close().catch(() => undefined);
+    }
+
+    logger.success(requestId, 'FLOW_EXPLORE_DONE', {
+        steps: flow.steps.length,
+        stopReason: flow.stopReason,
+        path: flow.steps.map(s => s.components.map(c => c.type).join('+') || '-').join(' > '),
+    });
+
+    return flow;
+}
+
+/*============================================================================*
+ * STEP HANDLING
+ *============================================================================*/
+
+async function recordStep(page: Page, index: number, action: AuthFlowStep['action']): Promise<AuthFlowStep> {
+    const url = page.url();
+    return {
+        index,
+        url,
+        action,
+        provider: matchProviderEndpoint(url)?.id,
+        components: detectFromDOM(await page.content()),
+    };
+}
+
+async function findIdentifierField(page: Page): Promise<Locator | undefined> {
+    const candidates = page.locator(SELECTORS.IDENTIFIER);
+    const count = Math.min(await candidates.count(), 10);
+
+    for (let i = 0; i < count; i++) {
+        const field = candidates.nth(i);
+        const type = (await field.getAttribute('type'))?.toLowerCase();
+        if (type && !['email', 'text', 'tel'].includes(type)) continue;
+        if (await field.isVisible() && await field.isEditable()) return field;
+    }
+    return undefined;
+}
+
+/**
+ * Type the placeholder identifier and submit: the field's form submit
+ * button, else a visible "Continue"/"Next" button, else Enter. Returns the
+ * identifier that was typed.
+ */
+async function submitIdentifier(page: Page, field: Locator, requestId: string): Promise<string> {
+    const hint = `${await field.getAttribute('name') ?? ''} ${await field.getAttribute('autocomplete') ?? ''} ${await field.getAttribute('placeholder') ?? ''}`;
+    const isEmail = (await field.getAttribute('type')) === 'email' || /mail/i.test(hint) || !USERNAME_HINT.test(hint);
+    const identifier = isEmail ? CONFIG.PLACEHOLDER_EMAIL : CONFIG.PLACEHOLDER_USERNAME;
+    await field.fill(identifier, { timeout: CONFIG.TIMEOUTS.ACTION });
+
+    const submit = await findSubmitControl(page, field);
+    logger.info(requestId, 'FLOW_SUBMIT_IDENTIFIER', { url: page.url(), via: submit ? 'click' : 'enter' });
+
+    if (submit) {
+        await submit.click({ timeout: CONFIG.TIMEOUTS.ACTION });
+    } else {
+        await field.press('Enter', { timeout: CONFIG.TIMEOUTS.ACTION });
+    }
+
+    await page.waitForLoadState('domcontentloaded', { timeout: CONFIG.TIMEOUTS.NAVIGATION }).catch(() => undefined);
+    await page.waitForTimeout(CONFIG.TIMEOUTS.SETTLE);
+    return identifier;
+}
+
+async function findSubmitControl(page: Page, field: Locator): Promise<Locator | undefined> {
+    const formSubmit = field.locator('xpath=ancestor::form[1]').locator(SELECTORS.SUBMIT);
+    if (await formSubmit.count() > 0 && await formSubmit.first().isVisible()) return formSubmit.first();
+
+    const buttons = page.locator(SELECTORS.CONTINUE);
+    const count = Math.min(await buttons.count(), 30);
+    for (let i = 0; i < count; i++) {
+        const button = buttons.nth(i);
+        const text = ((await button.innerText().catch(() => '')) || (await button.getAttribute('value')) || '').trim();
+        if (CONTINUE_TEXT.test(text) && await button.isVisible()) return button;
+    }
+    return undefined;
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+async function hasVisible(page: Page, selector: string): Promise<boolean> {
+    const matches = page.locator(selector);
+    const count = Math.min(await matches.count(), 10);
+    for (let i = 0; i < count; i++) {
+        if (await matches.nth(i).isVisible()) return true;
+    }
+    return false;
+}
+
+function signature(step: AuthFlowStep): string {
+    return step.components.map(c => `${c.type}:${c.details.playwrightSelector ?? ''}`).join('|');
+}
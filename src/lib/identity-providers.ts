@@ -0,0 +1,381 @@
+/**
+ * Identity Provider Registry
+ *
+ * Known OAuth / OpenID / enterprise identity providers and the markers that
+ * give them away on a login page: button text, authorization endpoints, SDK
+ * scripts and brand button classes. Shared by DOM detection and the
+ * Playwright fallback extraction.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface IdentityProvider {
+    /** Canonical lowercase id, reported in `details.providers` */
+    id: string;
+    /** Display names as they appear on buttons; the first one is preferred */
+    names: string[];
+    /** Authorization endpoints as `host` or `host/path-prefix`; subdomains match */
+    authEndpoints: string[];
+    /** Substrings of SDK `<script src>` URLs */
+    sdkScripts: string[];
+    /** Brand button class / id / attribute fragments */
+    buttonMarkers: string[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const IDENTITY_PROVIDERS: IdentityProvider[] = [
+    {
+        id: 'google',
+        names: ['Google'],
+        authEndpoints: ['accounts.google.com/o/oauth2', 'accounts.google.com/signin/oauth', 'oauth2.googleapis.com'],
+        sdkScripts: ['accounts.google.com/gsi/client', 'apis.google.com/js/platform.js'],
+        buttonMarkers: ['g_id_signin', 'g_id_onload', 'gsi-material-button', 'google-signin', 'btn-google'],
+    },
+    {
+        id: 'apple',
+        names: ['Apple'],
+        authEndpoints: ['appleid.apple.com/auth'],
+        sdkScripts: ['appleid.cdn-apple.com/appleauth'],
+        buttonMarkers: ['appleid-signin', 'apple-signin', 'btn-apple'],
+    },
+    {
+        id: 'microsoft',
+        names: ['Microsoft', 'Outlook', 'Office 365'],
+        authEndpoints: ['login.microsoftonline.com', 'login.live.com'],
+        sdkScripts: ['alcdn.msauth.net', 'msal-browser'],
+        buttonMarkers: ['microsoft-signin', 'ms-signin', 'btn-microsoft'],
+    },
+    {
+        id: 'facebook',
+        names: ['Facebook'],
+        authEndpoints: ['facebook.com/dialog/oauth', 'facebook.com/v2', 'facebook.com/login.php'],
+        sdkScripts: ['connect.facebook.net'],
+        buttonMarkers: ['fb-login-button', 'facebook-login', 'btn-facebook'],
+    },
+    {
+        id: 'github',
+        names: ['GitHub'],
+        authEndpoints: ['github.com/login/oauth'],
+        sdkScripts: [],
+        buttonMarkers: ['github-login', 'btn-github'],
+    },
+    {
+        id: 'gitlab',
+        names: ['GitLab'],
+        authEndpoints: ['gitlab.com/oauth/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['gitlab-login', 'btn-gitlab'],
+    },
+    {
+        id: 'bitbucket',
+        names: ['Bitbucket'],
+        authEndpoints: ['bitbucket.org/site/oauth2'],
+        sdkScripts: [],
+        buttonMarkers: ['bitbucket-login', 'btn-bitbucket'],
+    },
+    {
+        id: 'x',
+        names: ['X', 'Twitter'],
+        authEndpoints: ['twitter.com/i/oauth2', 'api.twitter.com/oauth', 'x.com/i/oauth2', 'api.x.com/oauth'],
+        sdkScripts: ['platform.twitter.com'],
+        buttonMarkers: ['twitter-login', 'btn-twitter'],
+    },
+    {
+        id: 'linkedin',
+        names: ['LinkedIn'],
+        authEndpoints: ['linkedin.com/oauth'],
+        sdkScripts: ['platform.linkedin.com'],
+        buttonMarkers: ['linkedin-login', 'btn-linkedin'],
+    },
+    {
+        id: 'amazon',
+        names: ['Amazon'],
+        authEndpoints: ['amazon.com/ap/oa'],
+        sdkScripts: ['assets.loginwithamazon.com'],
+        buttonMarkers: ['loginwithamazon', 'amazon-login', 'btn-amazon'],
+    },
+    {
+        id: 'slack',
+        names: ['Slack'],
+        authEndpoints: ['slack.com/oauth', 'slack.com/openid'],
+        sdkScripts: [],
+        buttonMarkers: ['sign_in_with_slack', 'slack-login', 'btn-slack'],
+    },
+    {
+        id: 'discord',
+        names: ['Discord'],
+        authEndpoints: ['discord.com/oauth2', 'discord.com/api/oauth2', 'discordapp.com/api/oauth2'],
+        sdkScripts: [],
+        buttonMarkers: ['discord-login', 'btn-discord'],
+    },
+    {
+        id: 'okta',
+        names: ['Okta'],
+        authEndpoints: ['okta.com/oauth2', 'oktapreview.com/oauth2', 'okta.com/app'],
+        sdkScripts: ['global.oktacdn.com', 'okta-signin-widget', 'okta-auth-js'],
+        buttonMarkers: ['okta-sign-in', 'okta-login', 'btn-okta'],
+    },
+    {
+        id: 'yahoo',
+        names: ['Yahoo'],
+        authEndpoints: ['api.login.yahoo.com/oauth2'],
+        sdkScripts: [],
+        buttonMarkers: ['yahoo-login', 'btn-yahoo'],
+    },
+    {
+        id: 'wechat',
+        names: ['WeChat', 'Weixin', '微信'],
+        authEndpoints: ['open.weixin.qq.com/connect'],
+        sdkScripts: ['res.wx.qq.com/connect', 'wxLogin.js'],
+        buttonMarkers: ['wechat-login', 'weixin-login', 'btn-wechat'],
+    },
+    {
+        id: 'auth0',
+        names: ['Auth0'],
+        authEndpoints: ['auth0.com/authorize', 'auth0.com/u/login'],
+        sdkScripts: ['cdn.auth0.com', 'auth0-spa-js', 'auth0-lock'],
+        buttonMarkers: ['auth0-lock', 'auth0-login'],
+    },
+    {
+        id: 'onelogin',
+        names: ['OneLogin'],
+        authEndpoints: ['onelogin.com/oidc', 'onelogin.com/trust/saml2'],
+        sdkScripts: [],
+        buttonMarkers: ['onelogin-login', 'btn-onelogin'],
+    },
+    {
+        id: 'ping',
+        names: ['Ping Identity', 'PingOne', 'PingID'],
+        authEndpoints: ['pingone.com', 'pingidentity.com/as/authorization'],
+        sdkScripts: ['pingone', 'pingidentity'],
+        buttonMarkers: ['pingone-login', 'ping-login'],
+    },
+    {
+        id: 'salesforce',
+        names: ['Salesforce'],
+        authEndpoints: ['login.salesforce.com/services/oauth2', 'my.salesforce.com/services/oauth2'],
+        sdkScripts: [],
+        buttonMarkers: ['salesforce-login', 'btn-salesforce'],
+    },
+    {
+        id: 'atlassian',
+        names: ['Atlassian'],
+        authEndpoints: ['auth.atlassian.com/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['atlassian-login', 'btn-atlassian'],
+    },
+    {
+        id: 'twitch',
+        names: ['Twitch'],
+        authEndpoints: ['id.twitch.tv/oauth2'],
+        sdkScripts: [],
+        buttonMarkers: ['twitch-login', 'btn-twitch'],
+    },
+    {
+        id: 'spotify',
+        names: ['Spotify'],
+        authEndpoints: ['accounts.spotify.com/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['spotify-login', 'btn-spotify'],
+    },
+    {
+        id: 'reddit',
+        names: ['Reddit'],
+        authEndpoints: ['reddit.com/api/v1/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['reddit-login', 'btn-reddit'],
+    },
+    {
+        id: 'instagram',
+        names: ['Instagram'],
+        authEndpoints: ['api.instagram.com/oauth'],
+        sdkScripts: [],
+        buttonMarkers: ['instagram-login', 'btn-instagram'],
+    },
+    {
+        id: 'tiktok',
+        names: ['TikTok'],
+        authEndpoints: ['tiktok.com/v2/auth/authorize', 'tiktok.com/auth/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['tiktok-login', 'btn-tiktok'],
+    },
+    {
+        id: 'snapchat',
+        names: ['Snapchat'],
+        authEndpoints: ['accounts.snapchat.com/accounts/oauth2'],
+        sdkScripts: ['sdk.snapkit.com'],
+        buttonMarkers: ['snapchat-login', 'snap-login-button'],
+    },
+    {
+        id: 'line',
+        names: ['LINE'],
+        authEndpoints: ['access.line.me/oauth2'],
+        sdkScripts: ['static.line-scdn.net/liff'],
+        buttonMarkers: ['line-login', 'btn-line'],
+    },
+    {
+        id: 'kakao',
+        names: ['Kakao', 'KakaoTalk'],
+        authEndpoints: ['kauth.kakao.com/oauth'],
+        sdkScripts: ['developers.kakao.com/sdk', 't1.kakaocdn.net/kakao_js_sdk'],
+        buttonMarkers: ['kakao-login', 'btn-kakao'],
+    },
+    {
+        id: 'naver',
+        names: ['Naver'],
+        authEndpoints: ['nid.naver.com/oauth2.0'],
+        sdkScripts: ['static.nid.naver.com/js/naveridlogin'],
+        buttonMarkers: ['naver_id_login', 'naver-login', 'btn-naver'],
+    },
+    {
+        id: 'vk',
+        names: ['VK', 'VKontakte'],
+        authEndpoints: ['oauth.vk.com/authorize', 'id.vk.com/authorize'],
+        sdkScripts: ['vk.com/js/api/openapi.js', 'unpkg.com/@vkid/sdk'],
+        buttonMarkers: ['vk-login', 'vkid', 'btn-vk'],
+    },
+    {
+        id: 'yandex',
+        names: ['Yandex'],
+        authEndpoints: ['oauth.yandex.com/authorize', 'oauth.yandex.ru/authorize'],
+        sdkScripts: ['yastatic.net/s3/passport-sdk'],
+        buttonMarkers: ['yandex-login', 'btn-yandex'],
+    },
+    {
+        id: 'paypal',
+        names: ['PayPal'],
+        authEndpoints: ['paypal.com/connect', 'paypal.com/signin/authorize'],
+        sdkScripts: ['paypalobjects.com/js/external/connect'],
+        buttonMarkers: ['paypal-login', 'lippButton', 'btn-paypal'],
+    },
+    {
+        id: 'dropbox',
+        names: ['Dropbox'],
+        authEndpoints: ['dropbox.com/oauth2/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['dropbox-login', 'btn-dropbox'],
+    },
+    {
+        id: 'zoom',
+        names: ['Zoom'],
+        authEndpoints: ['zoom.us/oauth/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['zoom-login', 'btn-zoom'],
+    },
+    {
+        id: 'steam',
+        names: ['Steam'],
+        authEndpoints: ['steamcommunity.com/openid'],
+        sdkScripts: [],
+        buttonMarkers: ['steam-login', 'btn-steam'],
+    },
+    {
+        id: 'clever',
+        names: ['Clever'],
+        authEndpoints: ['clever.com/oauth/authorize'],
+        sdkScripts: [],
+        buttonMarkers: ['clever-login', 'btn-clever'],
+    },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lookup
+// ─────────────────────────────────────────────────────────────────────────────
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// All-caps names (X, VK, LINE) collide with ordinary words unless matched case-sensitively
+const isCaseSensitive = (name: string): boolean => name === name.toUpperCase() && /[A-Z]/.test(name);
+
+const namePatterns = new Map(IDENTITY_PROVIDERS.map(p => [
+    p.id,
+    p.names.map(name => new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, isCaseSensitive(name) ? 'u' : 'iu')),
+]));
+
+const byKey = new Map<string, IdentityProvider>();
+for (const p of IDENTITY_PROVIDERS) {
+    byKey.set(p.id, p);
+    p.names.forEach(name => byKey.set(name.toLowerCase(), p));
+}
+
+/**
+ * Case-insensitive keyword pattern over all unambiguous provider names, for
+ * cheap pre-filtering of raw HTML.
+ */
+export const PROVIDER_KEYWORDS = new RegExp(
+    IDENTITY_PROVIDERS.flatMap(p => p.names.filter(n => !isCaseSensitive(n))).map(escapeRegExp).join('|'),
+    'i'
+);
+
+/** Look up a provider by id or display name */
+export const getIdentityProvider = (idOrName: string): IdentityProvider | undefined =>
+    byKey.get(idOrName.trim().toLowerCase());
+
+/** Registry id for a known provider name, else the lowercased input */
+export const canonicalProviderId = (idOrName: string): string =>
+    getIdentityProvider(idOrName)?.id ?? idOrName.trim().toLowerCase();
+
+/** First provider whose display name appears as a whole word in `text` */
+export const matchProviderName = (text: string): IdentityProvider | undefined =>
+    IDENTITY_PROVIDERS.find(p => namePatterns.get(p.id)!.some(re => re.test(text)));
+
+/** Provider owning the authorization endpoint `url` points at */
+export const matchProviderEndpoint = (url: string, base?: string): IdentityProvider | undefined => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url, base);
+    } catch {
+        return undefined;
+    }
+    if (!/^https?:$/.test(parsed.protocol)) return undefined;
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return IDENTITY_PROVIDERS.find(p => p.authEndpoints.some(endpoint => {
+        const slash = endpoint.indexOf('/');
+        const epHost = slash === -1 ? endpoint : endpoint.slice(0, slash);
+        const epPath = slash === -1 ? '' : endpoint.slice(slash);
+        return (host === epHost || host.endsWith(`.${epHost}`)) && parsed.pathname.startsWith(epPath);
+    }));
+};
+
+/** Provider whose brand marker or id appears in a class/id/data attribute string */
+export const matchProviderMarker = (attrs: string): IdentityProvider | undefined => {
+    const haystack = attrs.toLowerCase();
+    return IDENTITY_PROVIDERS.find(p => p.buttonMarkers.some(m => haystack.includes(m.toLowerCase())));
+};
+
+/** Providers whose SDK is loaded by one of `scriptSrcs` */
+export const matchProviderSDKs = (scriptSrcs: string[]): IdentityProvider[] =>
+    IDENTITY_PROVIDERS.filter(p => p.sdkScripts.some(s => scriptSrcs.some(src => src.includes(s))));
+
+/**
+ * Playwright selectors for a provider's login button, most specific first.
+ * Unknown providers get text selectors built from the raw name.
+ */
+export const providerSelectors = (idOrName: string): string[] => {
+    const provider = getIdentityProvider(idOrName);
+    const id = provider?.id ?? idOrName.trim().toLowerCase();
+    const names = provider?.names ?? [idOrName.charAt(0).toUpperCase() + idOrName.slice(1).toLowerCase()];
+
+    const selectors = [`[data-provider="${id}"]`];
+    for (const marker of provider?.buttonMarkers ?? []) {
+        selectors.push(`[class*="${marker}"]`, `[id*="${marker}"]`);
+    }
+    for (const endpoint of provider?.authEndpoints ?? []) {
+        selectors.push(`a[href*="${endpoint}"]`, `form[action*="${endpoint}"]`);
+    }
+    for (const name of names) {
+        selectors.push(
+            `button:has-text("Sign in with ${name}")`, `a:has-text("Sign in with ${name}")`,
+            `button:has-text("Continue with ${name}")`, `a:has-text("Continue with ${name}")`
+        );
+        // `:has-text` is a case-insensitive substring match, too loose for "X" or "LINE"
+        if (!isCaseSensitive(name)) selectors.push(`button:has-text("${name}")`, `a:has-text("${name}")`);
+    }
+    return selectors;
+};
@@ -3,6 +3,8 @@
  */
 
 export class Logger {
+    private listeners = new Map<string, Set<LogListener>>();
+
     private colors = {
         reset: '\x1b[0m',
         bright: '\x1b[1m',
@@ -24,6 +26,37 @@ export class Logger {
         return `REQ-${Math.random().toString(16).slice(2, 10)}`;
     }
 
+    /**
+     * Receive every entry logged under `requestId` (e.g. to stream progress).
+     * Returns the unsubscribe function.
+     */
+    subscribe(requestId: string, listener: LogListener): () => void {
+        const listeners = this.listeners.get(requestId) ?? new Set<LogListener>();
+        listeners.add(listener);
+        this.listeners.set(requestId, listeners);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0) this.listeners.delete(requestId);
+        };
+    }
+
+    /**
+     * Hand an entry to the request's subscribers; a failing listener never breaks logging
+     */
+    private emit(entry: Omit<LogEntry, 'timestamp'>): void {
+        const listeners = this.listeners.get(entry.requestId);
+        if (!listeners) return;
+
+        for (const listener of listeners) {
+            try {
+                listener({ ...entry, timestamp: Date.now() });
+            } catch {
+                // Subscribers are best-effort
+            }
+        }
+    }
+
     /**
      * Get current timestamp in readable format
      */
@@ -68,6 +101,7 @@ export class Logger {
     info(requestId: string, step: string, data?: Record<string, unknown>, startTime?: number): void {
         const message = this.formatMessage(requestId, step, 'INFO');
         console.log(message);
+        this.emit({ requestId, step, level: 'info', data });
 
         if (data) {
             Object.entries(data).forEach(([key, value]) => {
@@ -93,6 +127,7 @@ export class Logger {
     ): void {
         const message = this.formatMessage(requestId, step, 'SUCCESS');
         console.log(message);
+        this.emit({ requestId, step, level: 'success', data });
 
         if (data) {
             Object.entries(data).forEach(([key, value]) => {
@@ -113,6 +148,7 @@ export class Logger {
     warn(requestId: string, step: string, message: string, data?: Record<string, unknown>): void {
         const formattedMessage = this.formatMessage(requestId, step, 'WARN');
         console.warn(formattedMessage);
+        this.emit({ requestId, step, level: 'warn', message, data });
         console.warn(`  ${this.colors.yellow}${message}${this.colors.reset}`);
 
         if (data) {
@@ -137,6 +173,7 @@ export class Logger {
 
         const errorMessage = error instanceof Error ? error.message : error;
         console.error(`  ${this.colors.red}${errorMessage}${this.colors.reset}`);
+        this.emit({ requestId, step, level: 'error', message: errorMessage, data: context });
 
         if (error instanceof Error && error.stack) {
             const stackLines = error.stack.split('\n').slice(1, 4);
@@ -210,6 +247,20 @@ export class Logger {
     }
 }
 
+/**
+ * One log call, as delivered to `subscribe` listeners
+ */
+export interface LogEntry {
+    requestId: string;
+    step: string;
+    level: 'info' | 'success' | 'warn' | 'error';
+    message?: string;
+    data?: Record<string, unknown>;
+    timestamp: number;
+}
+
+export type LogListener = (entry: LogEntry) => void;
+
 /**
  * Performance metrics interface
  */
@@ -0,0 +1,324 @@
+/**
+ * Login Page Discovery
+ *
+ * When the scanned URL is an entry page (a marketing homepage with a
+ * "Sign in" link) rather than a login page, follow the best-ranked sign-in
+ * link or button, or reveal the login modal, so detection runs on the page
+ * that actually holds the auth UI.
+ */
+
+import { Page } from 'playwright';
+import { logger } from './logger';
+import { triggerAuthModals, waitForModernWebApp } from './modern-web-helpers';
+import { matchProviderEndpoint } from './identity-providers';
+import type { LoginDiscovery, LoginDiscoveryStep } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+/** A visible link or button as read from the page */
+interface RawCandidate {
+    index: number;
+    kind: 'link' | 'button';
+    text: string;
+    href?: string;
+    inHeader: boolean;
+}
+
+interface SignInCandidate extends RawCandidate {
+    score: number;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+const CONFIG = {
+    MAX_HOPS: 2,
+    // Buttons are clicked to find out what they do; links are ranked first and only need a goto
+    MAX_BUTTON_ATTEMPTS: 3,
+    MAX_CANDIDATES: 200,
+    MIN_SCORE: 5,
+    MARKER_ATTRIBUTE: 'data-auth-discovery',
+    TIMEOUTS: {
+        NAVIGATION: 15000,
+        ACTION: 3000,
+        SETTLE: 1500,
+    },
+} as const;
+
+const SELECTORS = {
+    // A page with any of these visible already shows its login form
+    CREDENTIAL_FIELDS: [
+        'input[type="password"]',
+        'input[autocomplete~="username"]',
+        'input[autocomplete~="webauthn"]',
+        'input[autocomplete="one-time-code"]',
+    ].join(', '),
+    // Email fields only count inside a sign-in form; footers often have newsletter signups
+    EMAIL_FIELD: 'input[type="email"]',
+    CANDIDATES: 'a[href], button, [role="button"], [role="link"], input[type="submit"], input[type="button"]',
+    MODAL: '[role="dialog"], [role="alertdialog"], [aria-modal="true"], .modal, [class*="modal" i]',
+} as const;
+
+const AUTH_PATH = /\/(?:log-?in|sign-?in|sign_in|signon|auth(?:enticate)?|sso|session(?:s)?\/new|users\/sign_in|account\/login|my-?account)(?:[/?#.]|$)/i;
+const AUTH_HOST = /^(?:login|auth|accounts?|signin|id|sso|secure|my)\./i;
+
+const TEXT_SIGNALS: Array<[RegExp, number]> = [
+    [/^(?:sign|log)\s*-?\s*in$|^login$/i, 10],
+    [/\b(?:sign|log)\s*-?\s*in\b|\blogin\b|\bsign\s*on\b/i, 6],
+    [/\bmy account\b|^account$|\bcustomer portal\b/i, 3],
+];
+
+// Controls that lead somewhere else than the login page
+const EXCLUDED = /sign\s*-?\s*up|register|create\s+(?:an?\s+)?account|\bjoin\b|forgot|reset|log\s*-?\s*out|sign\s*-?\s*out|logout|free trial|\bdemo\b|contact sales/i;
+
+/*============================================================================*
+ * DISCOVERY
+ *============================================================================*/
+
+/**
+ * Move `page` from an entry page to its login page. Returns undefined when
+ * the page already is a login page; otherwise the path taken, with
+ * `authUrl` set to the page detection should run on. No new hop starts
+ * after `budgetMs`. Never throws.
+ */
+export async function discoverLoginPage(page: Page, budgetMs: number, requestId: string): Promise<LoginDiscovery | undefined> {
+    const startUrl = page.url();
+    if (await isAuthPage(page).catch(() => true)) return undefined;
+
+    const deadline = Date.now() + budgetMs;
+
+    const discovery: LoginDiscovery = { startUrl, authUrl: startUrl, steps: [], stopReason: 'max-hops' };
+    const visited = new Set([normalize(startUrl)]);
+
+    logger.info(requestId, 'LOGIN_DISCOVERY_START', { url: startUrl, maxHops: CONFIG.MAX_HOPS, budget: `${budgetMs}ms` });
+
+    try {
+        for (let hop = 0; hop < CONFIG.MAX_HOPS; hop++) {
+            if (Date.now() > deadline) {
+                discovery.stopReason = 'timeout';
+                break;
+            }
+
+            const step = await followBestCandidate(page, visited, requestId);
+            if (!step) {
+                discovery.stopReason = 'no-candidate';
+                break;
+            }
+
+            discovery.steps.push(step);
+            visited.add(normalize(step.url));
+            logger.info(requestId, 'LOGIN_DISCOVERY_HOP', { action: step.action, label: step.label, url: step.url, score: step.score });
+
+            if (step.action === 'modal' || await isAuthPage(page)) {
+                discovery.stopReason = 'auth-page';
+                break;
+            }
+        }
+    } catch (error) {
+        discovery.stopReason = 'error';
+        discovery.error = error instanceof Error ? error.message : String(error);
+        logger.warn(requestId, 'LOGIN_DISCOVERY_FAILED', discovery.error, { steps: discovery.steps.length });
+    } finally {
+        await page.evaluate((attribute: string) => {
+            document.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+        }, CONFIG.MARKER_ATTRIBUTE).catch(() => undefined);
+    }
+
+    discovery.authUrl = page.url();
+
+    logger.success(requestId, 'LOGIN_DISCOVERY_DONE', {
+        authUrl: discovery.authUrl,
+        hops: discovery.steps.length,
+        stopReason: discovery.stopReason,
+        path: discovery.steps.map(s => `${s.action}:${s.label}`).join(' > '),
+    });
+
+    return discovery;
+}
+
+/**
+ * Take the best way forward from the current page: the top-ranked link,
+ * else the top-ranked buttons, else the generic modal triggers. Returns
+ * undefined when nothing led anywhere.
+ */
+async function followBestCandidate(page: Page, visited: Set<string>, requestId: string): Promise<LoginDiscoveryStep | undefined> {
+    const from = page.url();
+    const candidates = rankCandidates(await collectCandidates(page), from)
+        .filter(c => !c.href || !visited.has(normalize(c.href)));
+
+    const link = candidates.find(c => c.kind === 'link' && c.href);
+    if (link?.href) {
+        await page.goto(link.href, { waitUntil: 'domcontentloaded', timeout: CONFIG.TIMEOUTS.NAVIGATION });
+        await settle(page, requestId);
+        return { from, action: 'link', label: link.text, href: link.href, score: link.score, url: page.url() };
+    }
+
+    for (const button of candidates.filter(c => c.kind === 'button').slice(0, CONFIG.MAX_BUTTON_ATTEMPTS)) {
+        const outcome = await clickCandidate(page, button, requestId);
+        if (outcome) return { from, action: outcome, label: button.text, score: button.score, url: page.url() };
+    }
+
+    // Nothing ranked: fall back to the scraper's generic sign-in triggers
+    if (await triggerAuthModals(page, requestId)) {
+        return { from, action: 'modal', label: 'sign-in trigger', score: 0, url: page.url() };
+    }
+    if (normalize(page.url()) !== normalize(from)) {
+        await settle(page, requestId);
+        return { from, action: 'button', label: 'sign-in trigger', score: 0, url: page.url() };
+    }
+
+    return undefined;
+}
+
+/**
+ * Click a button candidate and report whether it navigated (`button`),
+ * opened a dialog (`modal`) or did nothing visible (undefined)
+ */
+async function clickCandidate(page: Page, candidate: SignInCandidate, requestId: string): Promise<LoginDiscoveryStep['action'] | undefined> {
+    const before = normalize(page.url());
+    // Cookie banners and the like may already be showing
+    const dialogBefore = await hasVisible(page, SELECTORS.MODAL);
+
+    try {
+        await page.locator(`[${CONFIG.MARKER_ATTRIBUTE}="${candidate.index}"]`).click({ timeout: CONFIG.TIMEOUTS.ACTION });
+    } catch {
+        return undefined;
+    }
+
+    await page.waitForURL(url => normalize(url.href) !== before, { timeout: CONFIG.TIMEOUTS.ACTION }).catch(() => undefined);
+
+    if (normalize(page.url()) !== before) {
+        await settle(page, requestId);
+        return 'button';
+    }
+
+    const dialogOpened = !dialogBefore && await hasVisible(page, SELECTORS.MODAL);
+    return dialogOpened || await isAuthPage(page) ? 'modal' : undefined;
+}
+
+/*============================================================================*
+ * CANDIDATES
+ *============================================================================*/
+
+/**
+ * Visible links and buttons of the main frame, tagged with a marker
+ * attribute so buttons can be clicked later
+ */
+async function collectCandidates(page: Page): Promise<RawCandidate[]> {
+    return page.evaluate(({ selector, attribute, max }: { selector: string; attribute: string; max: number }) => {
+        const candidates: Array<{ index: number; kind: 'link' | 'button'; text: string; href?: string; inHeader: boolean }> = [];
+        const elements = Array.from(document.querySelectorAll<HTMLElement>(selector)).slice(0, max);
+
+        elements.forEach((el, index) => {
+            const rect = el.getBoundingClientRect();
+            const style = getComputedStyle(el);
+            if (rect.width === 0 || rect.height === 0 || style.visibility === 'hidden' || style.display === 'none') return;
+
+            const text = (el.innerText || el.getAttribute('aria-label') || el.getAttribute('title') || (el as HTMLInputElement).value || '')
+                .replace(/\s+/g, ' ')
+                .trim();
+            if (!text) return;
+
+            const anchor = el.closest('a[href]') as HTMLAnchorElement | null;
+            const href = anchor && /^https?:/i.test(anchor.href) ? anchor.href : undefined;
+
+            el.setAttribute(attribute, String(index));
+            candidates.push({
+                index,
+                kind: href ? 'link' : 'button',
+                text: text.slice(0, 80),
+                href,
+                inHeader: !!el.closest('header, nav, [role="banner"], [role="navigation"]'),
+            });
+        });
+
+        return candidates;
+    }, { selector: SELECTORS.CANDIDATES, attribute: CONFIG.MARKER_ATTRIBUTE, max: CONFIG.MAX_CANDIDATES });
+}
+
+/**
+ * Score candidates by their text, link target and placement; highest first.
+ * Sign-up, recovery and sign-out controls are dropped.
+ */
+function rankCandidates(candidates: RawCandidate[], pageUrl: string): SignInCandidate[] {
+    return candidates
+        .filter(c => c.text.length <= 40 && !EXCLUDED.test(c.text) && !(c.href && EXCLUDED.test(pathOf(c.href))))
+        .map(c => {
+            const textScore = TEXT_SIGNALS.find(([pattern]) => pattern.test(c.text))?.[1] ?? 0;
+            const hrefScore = c.href
+                ? (AUTH_PATH.test(pathOf(c.href)) ? 5 : 0) + (AUTH_HOST.test(hostOf(c.href)) || matchProviderEndpoint(c.href) ? 3 : 0)
+                : 0;
+            // Same-page anchors ("#login") usually open a modal; a goto would not
+            const samePage = c.href && normalize(c.href) === normalize(pageUrl);
+            return {
+                ...c,
+                kind: samePage ? 'button' as const : c.kind,
+                href: samePage ? undefined : c.href,
+                score: textScore + hrefScore + (c.inHeader ? 1 : 0),
+            };
+        })
+        .filter(c => c.score >= CONFIG.MIN_SCORE)
+        .sort((a, b) => b.score - a.score);
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+/**
+ * A login page shows a credential field, sits on a login path or embeds an
+ * identity provider frame
+ */
+async function isAuthPage(page: Page): Promise<boolean> {
+    if (AUTH_PATH.test(pathOf(page.url()))) return true;
+    if (page.frames().some(frame => frame !== page.mainFrame() && matchProviderEndpoint(frame.url()))) return true;
+    if (await hasVisible(page, SELECTORS.CREDENTIAL_FIELDS)) return true;
+
+    return page.evaluate((selector: string) => Array.from(document.querySelectorAll<HTMLInputElement>(selector)).some(input => {
+        const form = input.closest('form');
+        const text = form?.innerText ?? '';
+        return input.offsetParent !== null && /sign\s*in|log\s*in|login|continue|next/i.test(text) && !/subscribe|newsletter/i.test(text);
+    }), SELECTORS.EMAIL_FIELD);
+}
+
+async function hasVisible(page: Page, selector: string): Promise<boolean> {
+    const matches = page.locator(selector);
+    const count = Math.min(await matches.count(), 10);
+    for (let i = 0; i < count; i++) {
+        if (await matches.nth(i).isVisible()) return true;
+    }
+    return false;
+}
+
+async function settle(page: Page, requestId: string): Promise<void> {
+    await waitForModernWebApp(page, requestId);
+    await page.waitForTimeout(CONFIG.TIMEOUTS.SETTLE);
+}
+
+function normalize(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.origin}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+    } catch {
+        return url;
+    }
+}
+
+function pathOf(url: string): string {
+    try {
+        return new URL(url).pathname;
+    } catch {
+        return '';
+    }
+}
+
+function hostOf(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return '';
+    }
+}
@@ -0,0 +1,209 @@
+/**
+ * Network Auth Signal Capture
+ *
+ * Watches page traffic during a scrape and keeps the requests that point at
+ * authentication infrastructure: OAuth authorize/token endpoints, OIDC
+ * discovery documents, identity SDKs, SAML, WebAuthn and CAPTCHA services.
+ */
+
+import { Page, Request, Response } from 'playwright';
+import { logger } from './logger';
+import { matchProviderEndpoint, matchProviderSDKs } from './identity-providers';
+import type { NetworkAuthSignal, NetworkSignalKind } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+export interface NetworkCapture {
+    /** Signals recorded so far, in request order */
+    signals(): NetworkAuthSignal[];
+    /** Distinct request URLs (origin + path), for platform fingerprinting */
+    requestUrls(): string[];
+    /** Detach page listeners; recorded signals stay available */
+    stop(): void;
+}
+
+interface Classification {
+    kind: NetworkSignalKind;
+    provider?: string;
+    detail?: string;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+const CONFIG = {
+    MAX_SIGNALS: 50,
+    MAX_REQUEST_URLS: 200,
+    MAX_DISCOVERY_BYTES: 64 * 1024,
+} as const;
+
+const PATTERNS = {
+    OIDC_DISCOVERY: /\/\.well-known\/(?:openid-configuration|oauth-authorization-server)$/i,
+    AUTHORIZE: /(?:^|\/)(?:oauth2?\/|oidc\/|connect\/)?(?:v[\d.]+\/)?authorize$|\/oauth2?\/auth$/i,
+    TOKEN: /\/(?:oauth2?|oidc|connect)(?:\/v[\d.]+)?\/(?:access_)?token$/i,
+    SAML: /\/saml2?(?:\/|$)|\/sso\/saml/i,
+    SAML_PARAMS: /[?&](?:SAMLRequest|SAMLResponse)=/,
+    WEBAUTHN: /webauthn|passkey|\/fido2?\//i,
+    CAPTCHA_HOSTS: /(?:^|\.)(?:recaptcha\.net|hcaptcha\.com|arkoselabs\.com|funcaptcha\.com)$|^challenges\.cloudflare\.com$|^www\.google\.com$/i,
+    CAPTCHA_PATHS: /recaptcha|hcaptcha|turnstile|funcaptcha|fc\/gt2/i,
+    AUTH_API: /\/(?:api|auth|v\d+)\/[\w/-]*(?:login|signin|sign-in|session|authenticate|identifier)(?:[/?]|$)/i,
+} as const;
+
+// XHR/fetch only: page navigations to /login are not API calls
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+
+/*============================================================================*
+ * CAPTURE
+ *============================================================================*/
+
+/**
+ * Start recording auth-relevant traffic on `page`. Call before navigation so
+ * SDK loads and redirects from the first paint are included.
+ */
+export function startNetworkCapture(page: Page, requestId: string): NetworkCapture {
+    const signals: NetworkAuthSignal[] = [];
+    const byRequest = new Map<Request, NetworkAuthSignal>();
+    const seen = new Set<string>();
+    const requestUrls = new Set<string>();
+
+    const onRequest = (request: Request) => {
+        if (requestUrls.size < CONFIG.MAX_REQUEST_URLS && /^https?:/.test(request.url())) {
+            requestUrls.add(stripQuery(request.url()));
+        }
+        if (signals.length >= CONFIG.MAX_SIGNALS) return;
+
+        const classification = classifyAuthRequest(request.url(), request.resourceType());
+        if (!classification) return;
+
+        const url = stripQuery(request.url());
+        const key = `${classification.kind}|${request.method()}|${url}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        const signal: NetworkAuthSignal = {
+            ...classification,
+            url,
+            method: request.method(),
+            resourceType: request.resourceType(),
+        };
+        signals.push(signal);
+        byRequest.set(request, signal);
+    };
+
+    const onResponse = async (response: Response) => {
+        const signal = byRequest.get(response.request());
+        if (!signal) return;
+
+        signal.status = response.status();
+        if (signal.kind === 'oidc-discovery' && response.ok()) {
+            const issuer = await readIssuer(response);
+            if (issuer) signal.detail = `issuer=${issuer}`;
+        }
+    };
+
+    page.on('request', onRequest);
+    page.on('response', onResponse);
+
+    return {
+        signals: () => signals.map(s => ({ ...s })),
+        requestUrls: () => [...requestUrls],
+        stop: () => {
+            page.off('request', onRequest);
+            page.off('response', onResponse);
+            logger.info(requestId, 'NETWORK_CAPTURE_DONE', {
+                signals: signals.length,
+                kinds: [...new Set(signals.map(s => s.kind))].join(','),
+                providers: [...new Set(signals.map(s => s.provider).filter(Boolean))].join(','),
+            });
+        },
+    };
+}
+
+/*============================================================================*
+ * CLASSIFICATION
+ *============================================================================*/
+
+/**
+ * Classify a request URL, or return null when it is not auth-related.
+ */
+export function classifyAuthRequest(rawUrl: string, resourceType: string): Classification | null {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        return null;
+    }
+    if (!/^https?:$/.test(url.protocol)) return null;
+
+    const path = url.pathname;
+
+    if (PATTERNS.OIDC_DISCOVERY.test(path)) {
+        return { kind: 'oidc-discovery', provider: matchProviderEndpoint(rawUrl)?.id };
+    }
+
+    const sdk = resourceType === 'script' ? matchProviderSDKs([rawUrl])[0] : undefined;
+    if (sdk) return { kind: 'identity-sdk', provider: sdk.id };
+
+    const isToken = PATTERNS.TOKEN.test(path);
+    const endpoint = matchProviderEndpoint(rawUrl);
+    if (endpoint || isToken || PATTERNS.AUTHORIZE.test(path)) {
+        return {
+            kind: isToken ? 'token-endpoint' : 'oauth-authorize',
+            provider: endpoint?.id,
+            detail: describeOAuthParams(url),
+        };
+    }
+
+    if (PATTERNS.SAML.test(path) || PATTERNS.SAML_PARAMS.test(url.search)) return { kind: 'saml' };
+
+    if (PATTERNS.CAPTCHA_HOSTS.test(url.hostname) && PATTERNS.CAPTCHA_PATHS.test(path)) {
+        return { kind: 'captcha', detail: captchaKind(url) };
+    }
+
+    if (!API_RESOURCE_TYPES.has(resourceType)) return null;
+
+    if (PATTERNS.WEBAUTHN.test(path)) return { kind: 'webauthn' };
+    if (PATTERNS.AUTH_API.test(path)) return { kind: 'auth-api' };
+
+    return null;
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+function stripQuery(rawUrl: string): string {
+    const url = new URL(rawUrl);
+    return `${url.origin}${url.pathname}`;
+}
+
+// Only non-secret parameters; `code`, `state` and tokens are never recorded
+function describeOAuthParams(url: URL): string | undefined {
+    const parts = ['response_type', 'scope']
+        .map(name => [name, url.searchParams.get(name)] as const)
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}=${value}`);
+    return parts.length ? parts.join(' ') : undefined;
+}
+
+function captchaKind(url: URL): string {
+    const text = `${url.hostname}${url.pathname}`;
+    if (/hcaptcha/i.test(text)) return 'hcaptcha';
+    if (/turnstile|challenges\.cloudflare/i.test(text)) return 'turnstile';
+    if (/arkose|funcaptcha/i.test(text)) return 'arkose';
+    return 'recaptcha';
+}
+
+async function readIssuer(response: Response): Promise<string | undefined> {
+    try {
+        const body = await response.body();
+        if (body.length > CONFIG.MAX_DISCOVERY_BYTES) return undefined;
+        const issuer = (JSON.parse(body.toString('utf8')) as { issuer?: unknown }).issuer;
+        return typeof issuer === 'string' ? issuer : undefined;
+    } catch {
+        return undefined;
+    }
+}
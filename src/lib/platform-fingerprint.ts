@@ -0,0 +1,360 @@
+/**
+ * Identity Platform Fingerprinting
+ *
+ * Identifies the identity vendor behind a login page (Auth0, Okta, Cognito,
+ * Firebase, Clerk, Keycloak, ...) from markup, script URLs, cookie names,
+ * JS globals and request hosts. Signatures are plain data: add an entry to
+ * `PLATFORM_SIGNATURES` to teach the detector a new platform.
+ */
+
+import type { PlatformFingerprint, PlatformMatch, PlatformSignalKind } from '@/lib/types/auth.types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PlatformSignature {
+    id: string;
+    name: string;
+    category: PlatformMatch['category'];
+    /** Patterns tested against page and frame HTML (scripts removed) */
+    html?: RegExp[];
+    /** Substrings of `<script src>` URLs */
+    scripts?: string[];
+    /** Cookie name patterns */
+    cookies?: RegExp[];
+    /** Dotted `window` paths, e.g. `Clerk` or `firebase.auth` */
+    globals?: string[];
+    /** Request hosts: strings also match subdomains, RegExps the full host */
+    hosts?: Array<string | RegExp>;
+    /** Request paths (any host), for self-hosted IdPs on customer domains */
+    paths?: RegExp[];
+}
+
+export interface FingerprintInput {
+    html: string;
+    scriptSrcs: string[];
+    cookieNames: string[];
+    jsGlobals: string[];
+    /** Full URLs of requests, frames and the page itself */
+    urls: string[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Signatures
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PLATFORM_SIGNATURES: PlatformSignature[] = [
+    {
+        id: 'auth0',
+        name: 'Auth0',
+        category: 'hosted',
+        html: [/auth0-lock/i, /class=["'][^"']*\bauth0-/i],
+        scripts: ['cdn.auth0.com', 'auth0-spa-js', 'auth0-lock', '@auth0/'],
+        cookies: [/^auth0(?:\.|_|$)/, /^_legacy_auth0\./],
+        globals: ['Auth0Lock', 'auth0', 'createAuth0Client'],
+        hosts: ['auth0.com'],
+    },
+    {
+        id: 'okta',
+        name: 'Okta',
+        category: 'hosted',
+        html: [/okta-sign-in/i, /id=["']okta-login-container/i],
+        scripts: ['global.oktacdn.com', 'okta-signin-widget', 'okta-auth-js'],
+        cookies: [/^okta-oauth-/],
+        globals: ['OktaSignIn', 'OktaAuth'],
+        hosts: ['okta.com', 'oktapreview.com', 'okta-emea.com', 'oktacdn.com'],
+    },
+    {
+        id: 'cognito',
+        name: 'Amazon Cognito',
+        category: 'hosted',
+        html: [/amazoncognito\.com/i, /aws-amplify|amplify-authenticator/i],
+        scripts: ['aws-amplify', 'amazon-cognito-identity', '@aws-amplify/'],
+        cookies: [/^CognitoIdentityServiceProvider\./],
+        globals: ['AmazonCognitoIdentity', 'aws_amplify_core', 'Amplify'],
+        hosts: ['amazoncognito.com', /^cognito-(?:idp|identity)\.[a-z0-9-]+\.amazonaws\.com$/],
+    },
+    {
+        id: 'firebase',
+        name: 'Firebase Authentication',
+        category: 'hosted',
+        html: [/firebaseui-/i, /firebaseapp\.com\/__\/auth/i],
+        scripts: ['firebasejs', 'firebase-auth', 'firebaseui', '/__/firebase/'],
+        globals: ['firebase.auth', 'firebaseui'],
+        hosts: ['identitytoolkit.googleapis.com', 'securetoken.googleapis.com', 'firebaseapp.com'],
+        paths: [/^\/__\/auth\//],
+    },
+    {
+        id: 'clerk',
+        name: 'Clerk',
+        category: 'hosted',
+        html: [/cl-(?:signIn|sign-in|rootBox|card)/, /data-clerk/i],
+        scripts: ['clerk.browser.js', '@clerk/clerk-js', 'clerk.accounts.dev'],
+        cookies: [/^__clerk_db_jwt/, /^__client_uat/],
+        globals: ['Clerk'],
+        hosts: ['clerk.accounts.dev', 'clerk.com', 'clerkstage.dev'],
+    },
+    {
+        id: 'keycloak',
+        name: 'Keycloak',
+        category: 'self-hosted',
+        html: [/id=["']kc-(?:form-login|login|page-title)/i, /class=["'][^"']*\bkc-/i, /login-pf/i],
+        scripts: ['keycloak.js', 'keycloak-js', '/js/keycloak'],
+        cookies: [/^KEYCLOAK_(?:SESSION|IDENTITY)/, /^KC_RESTART$/],
+        globals: ['Keycloak'],
+        paths: [/\/realms\/[^/]+\/protocol\/openid-connect\//, /\/auth\/realms\//],
+    },
+    {
+        id: 'azure-ad-b2c',
+        name: 'Azure AD B2C',
+        category: 'hosted',
+        html: [/id=["']api["'][^>]*data-name=["'](?:Unified|SelfAsserted)/i],
+        cookies: [/^x-ms-cpim-/],
+        hosts: ['b2clogin.com'],
+    },
+    {
+        id: 'entra-id',
+        name: 'Microsoft Entra ID',
+        category: 'hosted',
+        scripts: ['msal-browser', 'alcdn.msauth.net', 'aadcdn.msauth.net'],
+        cookies: [/^ESTSAUTH/],
+        globals: ['msal'],
+        hosts: ['login.microsoftonline.com', 'login.windows.net', 'msauth.net'],
+    },
+    {
+        id: 'ping',
+        name: 'Ping Identity',
+        category: 'hosted',
+        html: [/pingone|ping-identity|pf-login/i],
+        scripts: ['pingone', 'pingidentity', 'davinci.js'],
+        cookies: [/^PF\.PERSISTENT$/, /^ST-NO-SS$/],
+        hosts: ['pingone.com', 'pingidentity.com', 'pingone.eu'],
+        paths: [/^\/as\/authorization\.oauth2$/, /^\/idp\/SSO\.saml2$/],
+    },
+    {
+        id: 'onelogin',
+        name: 'OneLogin',
+        category: 'hosted',
+        scripts: ['onelogin.com'],
+        cookies: [/^sub_session_onelogin/, /^onelogin/],
+        hosts: ['onelogin.com'],
+    },
+    {
+        id: 'supabase',
+        name: 'Supabase Auth',
+        category: 'hosted',
+        html: [/supabase-auth-ui|supabase-ui/i],
+        scripts: ['@supabase/', 'supabase-js', 'supabase.min.js'],
+        cookies: [/^sb-[a-z0-9]+-auth-token/, /^sb-access-token$/],
+        globals: ['supabase'],
+        paths: [/^\/auth\/v1\//],
+        hosts: ['supabase.co'],
+    },
+    {
+        id: 'stytch',
+        name: 'Stytch',
+        category: 'hosted',
+        scripts: ['js.stytch.com', '@stytch/'],
+        cookies: [/^stytch_session/],
+        globals: ['Stytch', 'StytchUIClient'],
+        hosts: ['stytch.com'],
+    },
+    {
+        id: 'magic',
+        name: 'Magic',
+        category: 'hosted',
+        scripts: ['auth.magic.link', 'magic-sdk'],
+        globals: ['Magic'],
+        hosts: ['magic.link'],
+    },
+    {
+        id: 'descope',
+        name: 'Descope',
+        category: 'hosted',
+        html: [/<descope-wc/i],
+        scripts: ['@descope/', 'descope.com'],
+        hosts: ['descope.com'],
+    },
+    {
+        id: 'frontegg',
+        name: 'Frontegg',
+        category: 'hosted',
+        html: [/frontegg/i],
+        scripts: ['@frontegg/', 'frontegg.com'],
+        cookies: [/^fe_refresh_/],
+        hosts: ['frontegg.com'],
+    },
+    {
+        id: 'workos',
+        name: 'WorkOS AuthKit',
+        category: 'hosted',
+        scripts: ['@workos-inc/', 'authkit'],
+        cookies: [/^wos-session$/],
+        hosts: ['workos.com', 'authkit.app'],
+    },
+    {
+        id: 'ory',
+        name: 'Ory',
+        category: 'hosted',
+        scripts: ['@ory/'],
+        cookies: [/^ory_(?:kratos_)?session/],
+        hosts: ['oryapis.com', 'ory.sh'],
+        paths: [/^\/self-service\/(?:login|registration)\/(?:browser|flows)/],
+    },
+    {
+        id: 'zitadel',
+        name: 'ZITADEL',
+        category: 'hosted',
+        cookies: [/^zitadel/i],
+        hosts: ['zitadel.cloud'],
+        paths: [/^\/ui\/login\//],
+    },
+    {
+        id: 'gigya',
+        name: 'SAP Customer Data Cloud (Gigya)',
+        category: 'hosted',
+        html: [/gigya-(?:screen|login|raas)/i],
+        scripts: ['cdns.gigya.com', 'gigya.js'],
+        cookies: [/^glt_/, /^gig_/],
+        globals: ['gigya'],
+        hosts: ['gigya.com'],
+    },
+    {
+        id: 'fusionauth',
+        name: 'FusionAuth',
+        category: 'self-hosted',
+        html: [/fusionauth/i],
+        cookies: [/^fusionauth\./],
+        hosts: ['fusionauth.io'],
+    },
+    {
+        id: 'forgerock',
+        name: 'ForgeRock / PingAM',
+        category: 'self-hosted',
+        scripts: ['forgerock-javascript-sdk', '@forgerock/'],
+        cookies: [/^iPlanetDirectoryPro$/, /^amlbcookie$/],
+        paths: [/^\/(?:openam|am)\/(?:json|XUI|oauth2)\//],
+    },
+    {
+        id: 'shibboleth',
+        name: 'Shibboleth IdP',
+        category: 'self-hosted',
+        html: [/shibboleth/i],
+        cookies: [/^_shibsession_/, /^shib_idp_session/],
+        paths: [/^\/idp\/profile\/SAML2\//, /^\/Shibboleth\.sso\//],
+    },
+    {
+        id: 'authentik',
+        name: 'authentik',
+        category: 'self-hosted',
+        html: [/<ak-flow-executor/i, /authentik/i],
+        cookies: [/^authentik_/],
+        paths: [/^\/if\/flow\//, /^\/application\/o\/authorize\//],
+    },
+    {
+        id: 'authelia',
+        name: 'Authelia',
+        category: 'self-hosted',
+        html: [/authelia/i],
+        cookies: [/^authelia_session$/],
+        paths: [/^\/api\/firstfactor$/],
+    },
+    {
+        id: 'gluu',
+        name: 'Gluu / Janssen',
+        category: 'self-hosted',
+        paths: [/^\/(?:oxauth|jans-auth)\//],
+    },
+    {
+        id: 'authjs',
+        name: 'Auth.js (NextAuth)',
+        category: 'self-hosted',
+        cookies: [/^(?:__Secure-|__Host-)?(?:next-auth|authjs)\./],
+        paths: [/^\/api\/auth\/(?:signin|session|csrf|providers)/],
+    },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Matching
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SIGNAL_WEIGHTS: Record<PlatformSignalKind, number> = {
+    host: 0.5,
+    path: 0.35,
+    script: 0.4,
+    global: 0.4,
+    cookie: 0.3,
+    html: 0.25,
+};
+
+// Above the cookie and html weights, so a single weak signal (one cookie or markup hit) is not reported
+const MIN_PLATFORM_CONFIDENCE = 0.32;
+
+/** Every `window` path any signature checks, for the scraper to probe */
+export const PLATFORM_GLOBALS = [...new Set(PLATFORM_SIGNATURES.flatMap(s => s.globals || []))];
+
+/**
+ * Match all signatures against what the scrape saw. `primary` is the best
+ * match, preferring hosted platforms over self-hosted ones on ties.
+ */
+export const fingerprintPlatform = (input: FingerprintInput): PlatformFingerprint => {
+    const html = input.html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '');
+    const parsed = input.urls.map(safeURL).filter((u): u is URL => !!u);
+    const hosts = new Set(parsed.map(u => u.hostname.toLowerCase()));
+    const paths = new Set(parsed.map(u => u.pathname));
+    const globals = new Set(input.jsGlobals);
+
+    const matches: PlatformMatch[] = PLATFORM_SIGNATURES.map(sig => {
+        const signals: PlatformMatch['signals'] = [];
+        // One observation counts once, even when several patterns match it
+        const hit = (kind: PlatformSignalKind, value: string) => {
+            if (!signals.some(s => s.kind === kind && s.value === value)) signals.push({ kind, value });
+        };
+
+        sig.hosts?.forEach(h => {
+            const host = [...hosts].find(host => typeof h === 'string' ? host === h || host.endsWith(`.${h}`) : h.test(host));
+            if (host) hit('host', host);
+        });
+        sig.paths?.forEach(re => {
+            const path = [...paths].find(p => re.test(p));
+            if (path) hit('path', path);
+        });
+        sig.scripts?.forEach(s => {
+            const src = input.scriptSrcs.find(src => src.includes(s));
+            if (src) hit('script', src);
+        });
+        sig.globals?.filter(g => globals.has(g)).forEach(g => hit('global', `window.${g}`));
+        sig.cookies?.forEach(re => {
+            const name = input.cookieNames.find(n => re.test(n));
+            if (name) hit('cookie', name);
+        });
+        sig.html?.forEach(re => {
+            const m = html.match(re);
+            if (m) hit('html', m[0].slice(0, 80));
+        });
+
+        const confidence = 1 - signals.reduce((acc, s) => acc * (1 - SIGNAL_WEIGHTS[s.kind]), 1);
+        return { id: sig.id, name: sig.name, category: sig.category, confidence: Math.round(confidence * 100) / 100, signals };
+    })
+        .filter(m => m.signals.length > 0 && m.confidence >= MIN_PLATFORM_CONFIDENCE)
+        .sort((a, b) => b.confidence - a.confidence || (a.category === b.category ? 0 : a.category === 'hosted' ? -1 : 1));
+
+    return { primary: matches[0]?.id, matches };
+};
+
+/** `<script src>` URLs in raw HTML */
+export const extractScriptSrcs = (html: string): string[] =>
+    [...html.matchAll(/<script\b[^>]*\bsrc=["']([^"']+)["']/gi)].map(m => m[1]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const safeURL = (url: string): URL | undefined => {
+    try {
+        return new URL(url);
+    } catch {
+        return undefined;
+    }
+};
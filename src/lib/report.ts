@@ -0,0 +1,327 @@
+/**
+ * Scan Report Renderer
+ *
+ * Renders a scan as JSON, Markdown, a standalone HTML page, CSV (one row per
+ * component) or SARIF 2.1.0 (security and accessibility findings), for CI
+ * and ticketing tools. Format negotiation lives here too.
+ */
+
+import type { AccessibilityCheckId, AccessibilityImpact, AuthComponent, DetectionResult, SecurityCheckId, SecuritySeverity } from '@/lib/types/auth.types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types & Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const REPORT_FORMATS = ['json', 'markdown', 'html', 'csv', 'sarif'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/** A detection result plus the page details the scrape route returns with it */
+export type ScanReport = DetectionResult & {
+    pageTitle?: string;
+    screenshot?: string;
+    cached?: boolean;
+};
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+    json: 'application/json',
+    markdown: 'text/markdown; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+    sarif: 'application/sarif+json',
+};
+
+const FORMAT_ALIASES: Record<string, ReportFormat> = {
+    md: 'markdown',
+    htm: 'html',
+};
+
+const MEDIA_TYPES: Record<string, ReportFormat> = {
+    'application/json': 'json',
+    'text/markdown': 'markdown',
+    'text/x-markdown': 'markdown',
+    'text/html': 'html',
+    'text/csv': 'csv',
+    'application/sarif+json': 'sarif',
+};
+
+const RULE_DESCRIPTIONS: Record<SecurityCheckId | AccessibilityCheckId, string> = {
+    'insecure-page': 'Login page served over plain HTTP',
+    'insecure-form-action': 'Credential form submits over plain HTTP',
+    'cross-origin-action': 'Credential form submits to another origin',
+    'password-over-get': 'Password form uses the GET method',
+    'password-outside-form': 'Password input outside any form',
+    'missing-csrf-token': 'POST form without a CSRF token',
+    'password-autocomplete-off': 'autocomplete="off" on a password field',
+    'missing-label': 'Form field without a label',
+    'placeholder-as-label': 'Placeholder used as the only label',
+    'missing-accessible-name': 'Control without an accessible name',
+    'icon-only-button': 'Icon-only social button without an accessible name',
+    'positive-tabindex': 'Positive tabindex overrides focus order',
+    'focus-order': 'Focus order differs from visual order',
+    'not-focusable': 'Clickable element not keyboard focusable',
+    'low-contrast-submit': 'Submit button text contrast below WCAG AA',
+    'missing-error-association': 'Error message not associated with its field',
+};
+
+const SARIF_LEVELS: Record<SecuritySeverity | AccessibilityImpact, 'error' | 'warning' | 'note'> = {
+    high: 'error',
+    medium: 'warning',
+    low: 'note',
+    critical: 'error',
+    serious: 'error',
+    moderate: 'warning',
+    minor: 'note',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Format Negotiation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the report format: the `format` query parameter wins, then the first
+ * supported media type in `Accept` (by q-value), else JSON. Returns null when
+ * `format` names an unsupported format.
+ */
+export const resolveReportFormat = (formatParam: string | null, accept: string | null): ReportFormat | null => {
+    if (formatParam) {
+        const format = formatParam.trim().toLowerCase();
+        const resolved = FORMAT_ALIASES[format] ?? format;
+        return (REPORT_FORMATS as readonly string[]).includes(resolved) ? resolved as ReportFormat : null;
+    }
+
+    const ranked = (accept || '')
+        .split(',')
+        .map(part => {
+            const [type, ...params] = part.trim().toLowerCase().split(';');
+            const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+            return { type: type.trim(), q: q ? Number(q.slice(2)) || 0 : 1 };
+        })
+        .filter(entry => entry.q > 0 && MEDIA_TYPES[entry.type])
+        .sort((a, b) => b.q - a.q);
+
+    return ranked.length ? MEDIA_TYPES[ranked[0].type] : 'json';
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const renderReport = (report: ScanReport, format: ReportFormat): string => {
+    switch (format) {
+        case 'markdown': return renderMarkdown(report);
+        case 'html': return renderHTML(report);
+        case 'csv': return renderCSV(report);
+        case 'sarif': return JSON.stringify(renderSARIF(report), null, 2);
+        default: return JSON.stringify(report);
+    }
+};
+
+/** Suggested download name, e.g. `auth-report-example.com.md` */
+export const reportFileName = (report: ScanReport, format: ReportFormat): string => {
+    const extension = { json: 'json', markdown: 'md', html: 'html', csv: 'csv', sarif: 'sarif' }[format];
+    return `auth-report-${hostOf(report.url).replace(/[^a-z0-9.-]/gi, '-')}.${extension}`;
+};
+
+const renderMarkdown = (report: ScanReport): string => {
+    const lines = [
+        `# Authentication report: ${report.pageTitle || hostOf(report.url)}`,
+        '',
+        `- **URL:** ${report.url}`,
+        `- **Result:** ${report.found ? `${report.components.length} component(s) found` : 'no authentication components found'}`,
+        `- **Detection method:** ${report.detectionMethod}`,
+        ...(report.platform?.matches.length
+            ? [`- **Platform:** ${report.platform.matches.map(m => `${m.name} (${m.category}, ${percent(m.confidence)})`).join(', ')}`]
+            : []),
+        ...(report.discovery
+            ? [`- **Login page:** ${report.discovery.authUrl} (discovered via ${report.discovery.steps.map(s => `${s.action} "${s.label}"`).join(' → ') || 'no step'}, stopped at \`${report.discovery.stopReason}\`)`]
+            : []),
+        ...(report.flow ? [`- **Login flow:** ${report.flow.steps.length} step(s), stopped at \`${report.flow.stopReason}\``] : []),
+        '',
+    ];
+
+    if (report.components.length) {
+        lines.push(
+            '## Components',
+            '',
+            '| # | Type | Confidence | Selector | Details | Visible |',
+            '|---|------|------------|----------|---------|---------|',
+            ...report.components.map((c, i) =>
+                `| ${indexOf(c, i)} | ${c.type} | ${c.confidence !== undefined ? percent(c.confidence) : '-'} | ${mdCell(code(selectorOf(c)))} | ${mdCell(detailsOf(c))} | ${c.visible === undefined ? '-' : c.visible ? 'yes' : 'no'} |`),
+            '',
+        );
+    }
+
+    const withFindings = report.components.map((c, i) => ({ c, i })).filter(({ c }) => c.security?.length || c.accessibility?.length);
+    if (withFindings.length) {
+        lines.push('## Findings', '');
+        for (const { c, i } of withFindings) {
+            lines.push(`### #${indexOf(c, i)} ${c.type}`, '');
+            for (const f of c.security || []) lines.push(`- **Security · ${f.severity}** (\`${f.id}\`): ${f.message}${f.element ? ` — ${code(f.element)}` : ''}`);
+            for (const f of c.accessibility || []) lines.push(`- **Accessibility · ${f.impact}** (\`${f.id}\`${f.wcag ? `, WCAG ${f.wcag}` : ''}): ${f.message}${f.element ? ` — ${code(f.element)}` : ''}`);
+            lines.push('');
+        }
+    }
+
+    return lines.join('\n');
+};
+
+const renderHTML = (report: ScanReport): string => {
+    const screenshot = [report.annotatedScreenshot, report.screenshot].find(s => s?.startsWith('data:image/'));
+    const rows = report.components.map((c, i) => `<tr>
+<td>${indexOf(c, i)}</td><td>${escapeHTML(c.type)}</td><td>${c.confidence !== undefined ? percent(c.confidence) : '-'}</td>
+<td><code>${escapeHTML(selectorOf(c))}</code></td><td>${escapeHTML(detailsOf(c))}</td>
+<td>${c.visible === undefined ? '-' : c.visible ? 'yes' : 'no'}</td>
+</tr>`).join('\n');
+
+    const findings = report.components.flatMap((c, i) => [
+        ...(c.security || []).map(f => `<li class="${f.severity}"><strong>#${indexOf(c, i)} security · ${f.severity}</strong> <code>${f.id}</code> ${escapeHTML(f.message)}${f.element ? ` <code>${escapeHTML(f.element)}</code>` : ''}</li>`),
+        ...(c.accessibility || []).map(f => `<li class="${f.impact}"><strong>#${indexOf(c, i)} accessibility · ${f.impact}</strong> <code>${f.id}</code> ${escapeHTML(f.message)}${f.wcag ? ` (WCAG ${escapeHTML(f.wcag)})` : ''}${f.element ? ` <code>${escapeHTML(f.element)}</code>` : ''}</li>`),
+    ]);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'">
+<title>Authentication report: ${escapeHTML(report.pageTitle || hostOf(report.url))}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; color: #111; }
+table { border-collapse: collapse; width: 100%; } th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+code { font-size: 12px; word-break: break-all; } img { max-width: 100%; border: 1px solid #ccc; }
+li.high, li.critical, li.serious { color: #b00020; } li.medium, li.moderate { color: #8a5a00; }
+</style>
+</head>
+<body>
+<h1>Authentication report</h1>
+<p>${/^https?:/i.test(report.url) ? `<a href="${escapeHTML(report.url)}" rel="noreferrer">${escapeHTML(report.url)}</a>` : escapeHTML(report.url)}<br>
+${report.found ? `${report.components.length} component(s) found` : 'No authentication components found'} · ${escapeHTML(report.detectionMethod)} detection${report.platform?.primary ? ` · platform: ${escapeHTML(report.platform.matches[0].name)}` : ''}${report.discovery ? `<br>
+Login page: ${escapeHTML(report.discovery.authUrl)} (discovered via ${escapeHTML(report.discovery.steps.map(s => `${s.action} "${s.label}"`).join(' → ') || 'no step')})` : ''}</p>
+${screenshot ? `<img src="${escapeHTML(screenshot)}" alt="Screenshot of the scanned page">` : ''}
+${rows ? `<h2>Components</h2>
+<table>
+<thead><tr><th>#</th><th>Type</th><th>Confidence</th><th>Selector</th><th>Details</th><th>Visible</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>` : ''}
+${findings.length ? `<h2>Findings</h2>
+<ul>
+${findings.join('\n')}
+</ul>` : ''}
+</body>
+</html>
+`;
+};
+
+const CSV_COLUMNS = [
+    'index', 'type', 'confidence', 'detected_by', 'selector', 'selector_verified', 'frame_url', 'visible',
+    'x', 'y', 'width', 'height', 'providers', 'fields', 'method', 'kind', 'security_findings', 'accessibility_findings',
+];
+
+const renderCSV = (report: ScanReport): string => {
+    const rows = report.components.map((c, i) => [
+        indexOf(c, i),
+        c.type,
+        c.confidence ?? '',
+        (c.detectedBy || []).join('+'),
+        selectorOf(c),
+        c.selector?.verified ?? '',
+        c.frameUrl ?? '',
+        c.visible ?? '',
+        c.boundingBox?.x ?? '',
+        c.boundingBox?.y ?? '',
+        c.boundingBox?.width ?? '',
+        c.boundingBox?.height ?? '',
+        (c.details.providers || []).join(';'),
+        (c.details.fields || []).join(';'),
+        c.details.method ?? '',
+        c.details.kind ?? '',
+        (c.security || []).map(f => `${f.severity}:${f.id}`).join(';'),
+        (c.accessibility || []).map(f => `${f.impact}:${f.id}`).join(';'),
+    ]);
+
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const renderSARIF = (report: ScanReport) => {
+    const results = report.components.flatMap((c, i) => {
+        const location = {
+            physicalLocation: { artifactLocation: { uri: c.frameUrl || report.url } },
+            logicalLocations: [{ name: `#${indexOf(c, i)} ${c.type}`, fullyQualifiedName: selectorOf(c) || undefined, kind: 'element' }],
+        };
+        return [
+            ...(c.security || []).map(f => ({
+                ruleId: `security/${f.id}`,
+                level: SARIF_LEVELS[f.severity],
+                message: { text: f.message },
+                locations: [location],
+                properties: { severity: f.severity, element: f.element, componentType: c.type },
+            })),
+            ...(c.accessibility || []).map(f => ({
+                ruleId: `accessibility/${f.id}`,
+                level: SARIF_LEVELS[f.impact],
+                message: { text: f.message },
+                locations: [location],
+                properties: { impact: f.impact, element: f.element, wcag: f.wcag, componentType: c.type },
+            })),
+        ];
+    });
+
+    const ruleIds = [...new Set(results.map(r => r.ruleId))];
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'auth-detector',
+                    rules: ruleIds.map(id => ({
+                        id,
+                        shortDescription: { text: RULE_DESCRIPTIONS[id.split('/')[1] as SecurityCheckId | AccessibilityCheckId] },
+                    })),
+                },
+            },
+            artifacts: [{ location: { uri: report.url } }],
+            results,
+        }],
+    };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const selectorOf = (c: AuthComponent): string =>
+    c.selector?.stable || c.selector?.original || c.details.playwrightSelector || '';
+
+const indexOf = (c: AuthComponent, i: number): number => c.annotationIndex ?? i + 1;
+
+const detailsOf = (c: AuthComponent): string => [
+    ...(c.details.providers || []),
+    ...(c.details.fields || []).map(f => `${f} field`),
+    ...(c.details.method ? [`method: ${c.details.method}`] : []),
+    ...(c.details.kind ? [`kind: ${c.details.kind}`] : []),
+].join(', ');
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const code = (value: string): string => (value ? `\`${value.replace(/`/g, "'")}\`` : '-');
+
+const mdCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+// Quotes per RFC 4180; formula-leading cells are prefixed so spreadsheets do not evaluate them
+const csvCell = (value: string | number | boolean): string => {
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeHTML = (value: string): string => value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const hostOf = (url: string): string => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+};
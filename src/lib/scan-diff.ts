@@ -0,0 +1,269 @@
+/**
+ * Scan Diff
+ *
+ * Compares two detection results of the same URL and lists what changed in
+ * its auth UI: components and providers that appeared or went away, form
+ * fields, selectors that stopped resolving and rewritten markup. Changes
+ * that would break automation written against the earlier scan are flagged
+ * as breaking. Whether an earlier selector still works is only known from
+ * `SelectorChecks` run on the later scan's live page; without them selector
+ * differences are reported as unverified.
+ */
+
+import type { AuthComponent, AuthComponentType, DetectionResult, ScanChange, SelectorChecks } from '@/lib/types/auth.types';
+import { canonicalProviderId } from './identity-providers';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+// A new challenge in front of the login stops automation that used to get through
+const BREAKING_ADDITIONS: AuthComponentType[] = ['captcha', 'mfa'];
+
+// Removing these rarely matters to a login script
+const NON_BREAKING_REMOVALS: AuthComponentType[] = ['captcha', 'recovery'];
+
+const DETAIL_KEYS = ['method', 'intent'] as const;
+
+const MAX_SNIPPET_LENGTH = 2000;
+
+// Values that change on every request (CSRF tokens, nonces) and would make every scan a change
+const VALUE_ATTRIBUTE = /\svalue=(?:"[^"]*"|'[^']*'|[^\s>]+)/gi;
+const TOKEN_ATTRIBUTE = /\s[\w:-]*(?:csrf|xsrf|token|nonce)[\w:-]*=(?:"[^"]*"|'[^']*'|[^\s>]+)/gi;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diffing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Changes from `before` to `after`, page-level changes first. Empty when the
+ * auth UI looks the same. `checks` are `before`'s selectors tried on the page
+ * `after` was scanned from.
+ */
+export const diffResults = (before: DetectionResult, after: DetectionResult, checks?: SelectorChecks): ScanChange[] => {
+    const changes: ScanChange[] = [];
+
+    const authUrlBefore = before.discovery?.authUrl ?? before.url;
+    const authUrlAfter = after.discovery?.authUrl ?? after.url;
+    if (urlKey(authUrlBefore) !== urlKey(authUrlAfter)) {
+        changes.push({
+            kind: 'auth-url-changed',
+            breaking: true,
+            message: `Login page moved from ${authUrlBefore} to ${authUrlAfter}`,
+            before: authUrlBefore,
+            after: authUrlAfter,
+        });
+    }
+
+    const platformBefore = before.platform?.primary;
+    const platformAfter = after.platform?.primary;
+    if (platformBefore !== platformAfter) {
+        changes.push({
+            kind: 'platform-changed',
+            breaking: false,
+            message: `Identity platform changed from ${platformBefore ?? 'none'} to ${platformAfter ?? 'none'}`,
+            ...(platformBefore ? { before: platformBefore } : {}),
+            ...(platformAfter ? { after: platformAfter } : {}),
+        });
+    }
+
+    const providersBefore = providersOf(before);
+    const providersAfter = providersOf(after);
+    for (const provider of providersBefore) {
+        if (!providersAfter.has(provider)) {
+            changes.push({ kind: 'provider-removed', breaking: true, message: `Provider ${provider} removed`, before: provider });
+        }
+    }
+    for (const provider of providersAfter) {
+        if (!providersBefore.has(provider)) {
+            changes.push({ kind: 'provider-added', breaking: false, message: `Provider ${provider} added`, after: provider });
+        }
+    }
+
+    const { pairs, removed, added } = pairComponents(before.components, after.components);
+
+    for (const component of removed) {
+        changes.push({
+            kind: 'component-removed',
+            breaking: !NON_BREAKING_REMOVALS.includes(component.type),
+            message: `${componentLabel(component)} component removed`,
+            component: componentLabel(component),
+        });
+    }
+
+    for (const component of added) {
+        changes.push({
+            kind: 'component-added',
+            breaking: BREAKING_ADDITIONS.includes(component.type),
+            message: `${componentLabel(component)} component added`,
+            component: componentLabel(component),
+        });
+    }
+
+    for (const [previous, current] of pairs) {
+        changes.push(...diffComponent(previous, current, checks));
+    }
+
+    return changes;
+};
+
+/** Whether any change is likely to break automation */
+export const isBreaking = (changes: ScanChange[]): boolean => changes.some(change => change.breaking);
+
+const diffComponent = (before: AuthComponent, after: AuthComponent, checks?: SelectorChecks): ScanChange[] => {
+    const changes: ScanChange[] = [];
+    const component = componentLabel(after);
+
+    const fieldsBefore = normalizeList(before.details.fields);
+    const fieldsAfter = normalizeList(after.details.fields);
+    const removedFields = fieldsBefore.filter(field => !fieldsAfter.includes(field));
+    const addedFields = fieldsAfter.filter(field => !fieldsBefore.includes(field));
+    if (removedFields.length || addedFields.length) {
+        changes.push({
+            kind: 'fields-changed',
+            breaking: removedFields.length > 0,
+            message: `${component} fields changed: ${[...removedFields.map(f => `-${f}`), ...addedFields.map(f => `+${f}`)].join(' ')}`,
+            component,
+            before: fieldsBefore,
+            after: fieldsAfter,
+        });
+    }
+
+    for (const key of DETAIL_KEYS) {
+        const valueBefore = before.details[key];
+        const valueAfter = after.details[key];
+        if (valueBefore && valueAfter && valueBefore !== valueAfter) {
+            changes.push({
+                kind: 'details-changed',
+                breaking: false,
+                message: `${component} ${key} changed from ${valueBefore} to ${valueAfter}`,
+                component,
+                before: valueBefore,
+                after: valueAfter,
+            });
+        }
+    }
+
+    const selectorBefore = selectorOf(before);
+    const selectorAfter = selectorOf(after);
+    const stillMatches = checks && selectorBefore ? checks[selectorCheckKey(before)] : undefined;
+    if (before.selector?.verified && selectorBefore && stillMatches === 0) {
+        changes.push({
+            kind: 'selector-broken',
+            breaking: true,
+            message: `${component} selector ${selectorBefore} no longer matches the page`,
+            component,
+            before: selectorBefore,
+            ...(selectorAfter ? { after: selectorAfter } : {}),
+        });
+    } else if (before.selector?.verified && selectorBefore && (selectorBefore !== selectorAfter || !after.selector?.verified)) {
+        const verifiedAfter = after.selector?.verified ? selectorAfter : undefined;
+        changes.push(stillMatches === undefined
+            ? {
+                kind: 'selector-unverified',
+                breaking: false,
+                message: `${component} selector ${selectorBefore} was not re-checked against the new page`,
+                component,
+                before: selectorBefore,
+                ...(verifiedAfter ? { after: verifiedAfter } : {}),
+            }
+            : {
+                kind: 'selector-changed',
+                breaking: false,
+                message: `${component} selector is now ${verifiedAfter ?? 'unverified'}; ${selectorBefore} still matches`,
+                component,
+                before: selectorBefore,
+                ...(verifiedAfter ? { after: verifiedAfter } : {}),
+            });
+    }
+
+    const snippetBefore = normalizeSnippet(before.snippet);
+    const snippetAfter = normalizeSnippet(after.snippet);
+    if (snippetBefore && snippetAfter && snippetBefore !== snippetAfter) {
+        changes.push({
+            kind: 'snippet-changed',
+            breaking: false,
+            message: `${component} markup changed (${snippetBefore.length} -> ${snippetAfter.length} chars)`,
+            component,
+            before: snippetBefore.slice(0, MAX_SNIPPET_LENGTH),
+            after: snippetAfter.slice(0, MAX_SNIPPET_LENGTH),
+        });
+    }
+
+    return changes;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Matching
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The same component across scans has the same type, sub-kind and frame */
+const componentKey = (component: AuthComponent): string =>
+    `${component.type}|${component.details.kind ?? ''}|${component.frameUrl ? urlKey(component.frameUrl) : ''}`;
+
+/**
+ * Pair components with the same key in page order; unpaired ones were
+ * removed or added
+ */
+const pairComponents = (before: AuthComponent[], after: AuthComponent[]) => {
+    const unmatched = new Map<string, AuthComponent[]>();
+    for (const component of after) {
+        const key = componentKey(component);
+        unmatched.set(key, [...(unmatched.get(key) ?? []), component]);
+    }
+
+    const pairs: Array<[AuthComponent, AuthComponent]> = [];
+    const removed: AuthComponent[] = [];
+
+    for (const component of before) {
+        const match = unmatched.get(componentKey(component))?.shift();
+        if (match) pairs.push([component, match]);
+        else removed.push(component);
+    }
+
+    return { pairs, removed, added: [...unmatched.values()].flat() };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Key of a component's selector in `SelectorChecks` */
+export const selectorCheckKey = (component: AuthComponent): string =>
+    `${component.frameUrl ? urlKey(component.frameUrl) : ''} ${selectorOf(component) ?? ''}`;
+
+/** Origin and path only: query strings and fragments carry per-visit state */
+export const urlKey = (url: string): string => {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.origin}${parsed.pathname}`;
+    } catch {
+        return url;
+    }
+};
+
+const componentLabel = (component: AuthComponent): string =>
+    component.details.kind ? `${component.type}:${component.details.kind}` : component.type;
+
+const providersOf = (result: DetectionResult): Set<string> =>
+    new Set(result.components.flatMap(c => c.details.providers ?? []).map(canonicalProviderId));
+
+const selectorOf = (component: AuthComponent): string | undefined =>
+    component.selector?.stable ?? component.selector?.original ?? component.details.playwrightSelector;
+
+const normalizeList = (values: string[] = []): string[] =>
+    [...new Set(values.map(value => value.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * Markup with per-request noise removed: comments (including the extraction
+ * placeholders, which carry timings), hidden input values and token or nonce
+ * attributes. Empty for placeholder-only snippets.
+ */
+const normalizeSnippet = (snippet?: string): string =>
+    (snippet ?? '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<input\b[^>]*\btype=["']?hidden["']?[^>]*>/gi, tag => tag.replace(VALUE_ATTRIBUTE, ''))
+        .replace(TOKEN_ATTRIBUTE, '')
+        .replace(/\s+/g, ' ')
+        .replace(/>\s+</g, '><')
+        .trim();
@@ -0,0 +1,261 @@
+/**
+ * Scan History
+ *
+ * Keeps every distinct result seen for a URL, keyed like the cache, so a
+ * change to a site's login UI can be spotted after the cache entry has
+ * expired. A scan that matches the latest snapshot only bumps its
+ * `lastSeenAt`, so the timeline holds change points, not every scan.
+ * Snapshots live behind `ScanHistoryStore`; the default writes one JSON
+ * file per URL.
+ */
+
+import { randomUUID, createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Page } from 'playwright';
+import { logger } from './logger';
+import { detectionCache } from './cache';
+import { diffResults, isBreaking, selectorCheckKey, urlKey } from './scan-diff';
+import type { DetectionResult, ScanChange, ScanDiff, SelectorChecks } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+export interface ScanSnapshot {
+    id: string;
+    /** URL as requested by the scan that recorded it */
+    url: string;
+    /** First scan with this result */
+    scannedAt: number;
+    /** Latest scan with this result */
+    lastSeenAt: number;
+    scanCount: number;
+    /** Without screenshots and previews */
+    result: DetectionResult;
+    /** The previous snapshot's selectors, tried on the page this one was scanned from */
+    selectorChecks?: SelectorChecks;
+}
+
+/** A snapshot without its result, with what changed since the previous one */
+export interface ScanTimelineEntry extends Omit<ScanSnapshot, 'result' | 'selectorChecks'> {
+    found: boolean;
+    componentCount: number;
+    detectionMethod: DetectionResult['detectionMethod'];
+    breaking: boolean;
+    changes: ScanChange[];
+}
+
+/**
+ * Where snapshots are kept, oldest first per normalized URL. Async so a
+ * shared store (Redis, a database) can back it.
+ */
+export interface ScanHistoryStore {
+    read(key: string): Promise<ScanSnapshot[]>;
+    write(key: string, snapshots: ScanSnapshot[]): Promise<void>;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+export const HISTORY_CONFIG = {
+    // Serverless filesystems are read-only outside /tmp; point this at a persistent volume in production
+    DIR: process.env.SCAN_HISTORY_DIR || path.join(process.cwd(), '.scan-history'),
+    MAX_SNAPSHOTS_PER_URL: 50,
+} as const;
+
+/*============================================================================*
+ * FILE STORE
+ *============================================================================*/
+
+export class FileHistoryStore implements ScanHistoryStore {
+    constructor(private dir: string) {}
+
+    async read(key: string): Promise<ScanSnapshot[]> {
+        try {
+            const data = JSON.parse(await readFile(this.fileFor(key), 'utf8'));
+            return Array.isArray(data.snapshots) ? data.snapshots : [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    async write(key: string, snapshots: ScanSnapshot[]): Promise<void> {
+        await mkdir(this.dir, { recursive: true });
+
+        // Write then rename, so readers never see a half-written file
+        const file = this.fileFor(key);
+        const temp = `${file}.${process.pid}.tmp`;
+        await writeFile(temp, JSON.stringify({ key, snapshots }));
+        await rename(temp, file);
+    }
+
+    private fileFor(key: string): string {
+        return path.join(this.dir, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+    }
+}
+
+/*============================================================================*
+ * HISTORY
+ *============================================================================*/
+
+export class ScanHistory {
+    // Serializes read-modify-write per URL within this process
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(private store: ScanHistoryStore) {}
+
+    /**
+     * Record a fresh successful scan of `url`. `page` is the live page it was
+     * scanned from, used to check whether the previous snapshot's selectors
+     * still match. Never throws; a failing store must not fail the scan.
+     */
+    async record(url: string, result: DetectionResult, requestId: string, page?: Page): Promise<void> {
+        if (!result.success) return;
+
+        const key = detectionCache.normalizeURL(url);
+        const previous = this.writes.get(key) ?? Promise.resolve();
+        const write = previous.then(() => this.append(key, url, result, requestId, page)).catch(error => {
+            logger.warn(requestId, 'HISTORY_WRITE_FAILED', error instanceof Error ? error.message : String(error), { url: key });
+        });
+
+        this.writes.set(key, write);
+        await write;
+        if (this.writes.get(key) === write) this.writes.delete(key);
+    }
+
+    /**
+     * Snapshots of `url`, oldest first, each with the changes since the one
+     * before it
+     */
+    async timeline(url: string): Promise<ScanTimelineEntry[]> {
+        const snapshots = await this.store.read(detectionCache.normalizeURL(url));
+
+        return snapshots.map(({ result, selectorChecks, ...snapshot }, i) => {
+            const changes = i > 0 ? diffResults(snapshots[i - 1].result, result, selectorChecks) : [];
+            return {
+                ...snapshot,
+                found: result.found,
+                componentCount: result.components.length,
+                detectionMethod: result.detectionMethod,
+                breaking: isBreaking(changes),
+                changes,
+            };
+        });
+    }
+
+    /**
+     * Diff two snapshots of `url` by id; defaults to the two latest. Null
+     * when there are fewer than two snapshots or an id is unknown.
+     */
+    async diff(url: string, fromId?: string, toId?: string): Promise<ScanDiff | null> {
+        const snapshots = await this.store.read(detectionCache.normalizeURL(url));
+        const toIndex = toId ? snapshots.findIndex(s => s.id === toId) : snapshots.length - 1;
+        const fromIndex = fromId ? snapshots.findIndex(s => s.id === fromId) : toIndex - 1;
+        if (toIndex < 0 || fromIndex < 0 || fromIndex === toIndex) return null;
+
+        const from = snapshots[fromIndex];
+        const to = snapshots[toIndex];
+
+        // Checks only hold for the snapshot right before the one they were recorded on
+        const changes = diffResults(from.result, to.result, toIndex === fromIndex + 1 ? to.selectorChecks : undefined);
+        return {
+            from: { id: from.id, scannedAt: from.scannedAt },
+            to: { id: to.id, scannedAt: to.scannedAt },
+            breaking: isBreaking(changes),
+            changes,
+        };
+    }
+
+    private async append(key: string, url: string, result: DetectionResult, requestId: string, page?: Page): Promise<void> {
+        const snapshots = await this.store.read(key);
+        const latest = snapshots.at(-1);
+        const stored = stripForStorage(result);
+        const now = Date.now();
+
+        const selectorChecks = latest && page ? await checkSelectors(latest.result, page, requestId) : undefined;
+        const changes = latest ? diffResults(latest.result, stored, selectorChecks) : [];
+        if (latest && changes.length === 0) {
+            snapshots[snapshots.length - 1] = { ...latest, lastSeenAt: now, scanCount: latest.scanCount + 1 };
+            await this.store.write(key, snapshots);
+            logger.info(requestId, 'HISTORY_UNCHANGED', { url: key, snapshots: snapshots.length });
+            return;
+        }
+
+        snapshots.push({
+            id: randomUUID(),
+            url,
+            scannedAt: now,
+            lastSeenAt: now,
+            scanCount: 1,
+            result: stored,
+            ...(selectorChecks ? { selectorChecks } : {}),
+        });
+        await this.store.write(key, snapshots.slice(-HISTORY_CONFIG.MAX_SNAPSHOTS_PER_URL));
+
+        if (latest && isBreaking(changes)) {
+            logger.warn(requestId, 'HISTORY_BREAKING_CHANGE', `${changes.filter(c => c.breaking).length} breaking change(s)`, {
+                url: key,
+                kinds: [...new Set(changes.map(c => c.kind))],
+            });
+        } else {
+            logger.info(requestId, 'HISTORY_SNAPSHOT', { url: key, changes: changes.length, snapshots: snapshots.length });
+        }
+    }
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+/**
+ * Count matches of each verified selector of `previous` on the live page,
+ * in the component's frame. Selectors that fail to evaluate are left out,
+ * so the diff reports them as unverified.
+ */
+async function checkSelectors(previous: DetectionResult, page: Page, requestId: string): Promise<SelectorChecks> {
+    const checks: SelectorChecks = {};
+
+    for (const component of previous.components) {
+        const selector = component.selector?.stable ?? component.selector?.original ?? component.details.playwrightSelector;
+        if (!component.selector?.verified || !selector) continue;
+
+        const frameUrl = component.frameUrl;
+        const frame = frameUrl ? page.frames().find(f => urlKey(f.url()) === urlKey(frameUrl)) : page.mainFrame();
+        if (!frame) continue;
+
+        try {
+            checks[selectorCheckKey(component)] = await frame.locator(selector).count();
+        } catch {
+            // Page closed or selector no longer valid syntax for this engine
+        }
+    }
+
+    logger.info(requestId, 'HISTORY_SELECTOR_CHECK', {
+        checked: Object.keys(checks).length,
+        missing: Object.values(checks).filter(count => count === 0).length,
+    });
+
+    return checks;
+}
+
+/** Images make up most of a result and are not diffed */
+function stripForStorage(result: DetectionResult): DetectionResult {
+    const stripComponent = <T extends DetectionResult['components'][number]>(component: T): T =>
+        ({ ...component, preview: undefined, screenshot: undefined });
+
+    return {
+        success: result.success,
+        url: result.url,
+        found: result.found,
+        components: result.components.map(stripComponent),
+        detectionMethod: result.detectionMethod,
+        ...(result.flow ? { flow: { ...result.flow, steps: result.flow.steps.map(step => ({ ...step, components: step.components.map(stripComponent) })) } } : {}),
+        ...(result.discovery ? { discovery: result.discovery } : {}),
+        ...(result.platform ? { platform: result.platform } : {}),
+    };
+}
+
+export const scanHistory = new ScanHistory(new FileHistoryStore(HISTORY_CONFIG.DIR));
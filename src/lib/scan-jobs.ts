@@ -0,0 +1,203 @@
+/**
+ * Scan Jobs
+ *
+ * Runs scans in the background so a request returns a job id right away
+ * instead of holding the connection for the whole scan. Job records live
+ * behind `ScanJobStore`; the default keeps them in memory, so status is
+ * only visible to the process that accepted the job. A shared store lets
+ * other instances read status, but the scan itself, and cancelling it,
+ * stays with the process that runs it.
+ */
+
+import { randomUUID } from 'crypto';
+import { LRUCache } from 'lru-cache';
+import { logger } from './logger';
+import { runScan, type ScanOptions } from './scan';
+import type { ScanReport } from './report';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+export type ScanJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ScanJob {
+    id: string;
+    url: string;
+    options: Pick<ScanOptions, 'minConfidence' | 'explore' | 'discover'>;
+    status: ScanJobStatus;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    /** Set when `status` is `done` */
+    result?: ScanReport;
+    /** Set when `status` is `failed` */
+    error?: string;
+}
+
+/**
+ * Where job records are kept. Async so a shared store (Redis, a database)
+ * can back it.
+ */
+export interface ScanJobStore {
+    save(job: ScanJob): Promise<void>;
+    get(id: string): Promise<ScanJob | null>;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+export const JOB_CONFIG = {
+    MAX_RUNNING: 2,
+    MAX_QUEUED: 100,
+    // Jobs are not bound by the request duration, so slow sites get a longer scrape budget
+    SCRAPE_TIMEOUT: 120000,
+    MAX_STORED_JOBS: 500,
+    JOB_TTL: 60 * 60 * 1000, // 1 hour
+} as const;
+
+const FINAL_STATUSES: ScanJobStatus[] = ['done', 'failed', 'cancelled'];
+
+/*============================================================================*
+ * IN-MEMORY STORE
+ *============================================================================*/
+
+export class MemoryJobStore implements ScanJobStore {
+    private jobs = new LRUCache<string, ScanJob>({
+        max: JOB_CONFIG.MAX_STORED_JOBS,
+        ttl: JOB_CONFIG.JOB_TTL,
+    });
+
+    async save(job: ScanJob): Promise<void> {
+        this.jobs.set(job.id, job);
+    }
+
+    async get(id: string): Promise<ScanJob | null> {
+        return this.jobs.get(id) ?? null;
+    }
+}
+
+/*============================================================================*
+ * JOB QUEUE
+ *============================================================================*/
+
+export class ScanJobQueue {
+    private pending: string[] = [];
+    private running = new Map<string, AbortController>();
+    private settled = new Map<string, Promise<void>>();
+    private resolvers = new Map<string, () => void>();
+
+    constructor(private store: ScanJobStore) {}
+
+    /**
+     * Queue a scan of `url` and return its job record. Throws when the queue
+     * is full.
+     */
+    async submit(url: string, options: ScanJob['options'] = {}): Promise<ScanJob> {
+        if (this.isFull()) {
+            throw new Error(`Job queue is full (${JOB_CONFIG.MAX_QUEUED} queued)`);
+        }
+
+        const job: ScanJob = {
+            id: randomUUID(),
+            url,
+            options,
+            status: 'queued',
+            createdAt: Date.now(),
+        };
+
+        await this.store.save(job);
+        this.pending.push(job.id);
+        this.settled.set(job.id, new Promise(resolve => this.resolvers.set(job.id, resolve)));
+
+        logger.info(job.id, 'JOB_QUEUED', { url, queued: this.pending.length, running: this.running.size });
+
+        this.pump();
+        return job;
+    }
+
+    async get(id: string): Promise<ScanJob | null> {
+        return this.store.get(id);
+    }
+
+    isFull(): boolean {
+        return this.pending.length >= JOB_CONFIG.MAX_QUEUED;
+    }
+
+    /**
+     * Cancel a queued or running job. A running scan has its page and browser
+     * context closed. Returns the updated job, or null when it is unknown.
+     */
+    async cancel(id: string): Promise<ScanJob | null> {
+        const job = await this.store.get(id);
+        if (!job || FINAL_STATUSES.includes(job.status)) return job;
+
+        this.pending = this.pending.filter(pendingId => pendingId !== id);
+        this.running.get(id)?.abort();
+
+        const cancelled: ScanJob = { ...job, status: 'cancelled', finishedAt: Date.now() };
+        await this.store.save(cancelled);
+        logger.warn(id, 'JOB_CANCELLED', `Cancelled while ${job.status}`, { url: job.url });
+
+        this.finish(id);
+        return cancelled;
+    }
+
+    /**
+     * Resolves once the job reaches a final status. Lets a route keep the
+     * function alive (`after()`) until its job is done.
+     */
+    whenSettled(id: string): Promise<void> {
+        return this.settled.get(id) ?? Promise.resolve();
+    }
+
+    /**
+     * Start queued jobs while there are free slots
+     */
+    private pump(): void {
+        while (this.running.size < JOB_CONFIG.MAX_RUNNING && this.pending.length > 0) {
+            const id = this.pending.shift()!;
+            const controller = new AbortController();
+            this.running.set(id, controller);
+
+            this.execute(id, controller.signal)
+                .catch(error => logger.error(id, 'JOB_ERROR', error as Error))
+                .finally(() => {
+                    this.running.delete(id);
+                    this.finish(id);
+                    this.pump();
+                });
+        }
+    }
+
+    private async execute(id: string, signal: AbortSignal): Promise<void> {
+        const job = await this.store.get(id);
+        if (!job || job.status !== 'queued' || signal.aborted) return;
+
+        const startedAt = Date.now();
+        await this.store.save({ ...job, status: 'running', startedAt });
+        logger.info(id, 'JOB_RUNNING', { url: job.url });
+
+        const outcome = await runScan(job.url, id, { ...job.options, timeout: JOB_CONFIG.SCRAPE_TIMEOUT, signal });
+
+        // cancel() already recorded the final status, possibly from another instance
+        if (signal.aborted || (await this.store.get(id))?.status === 'cancelled') return;
+
+        if (outcome.success) {
+            await this.store.save({ ...job, status: 'done', startedAt, finishedAt: Date.now(), result: outcome.report });
+            logger.success(id, 'JOB_DONE', { url: job.url, duration: `${Date.now() - startedAt}ms` }, startedAt);
+        } else {
+            await this.store.save({ ...job, status: 'failed', startedAt, finishedAt: Date.now(), error: outcome.error });
+            logger.warn(id, 'JOB_FAILED', outcome.error, { url: job.url });
+        }
+    }
+
+    private finish(id: string): void {
+        this.resolvers.get(id)?.();
+        this.resolvers.delete(id);
+        this.settled.delete(id);
+    }
+}
+
+export const scanJobs = new ScanJobQueue(new MemoryJobStore());
@@ -0,0 +1,82 @@
+/**
+ * Scan Progress Events
+ *
+ * Turns logger entries into compact `ScanProgressEvent`s for live streaming:
+ * each step is assigned a pipeline stage and its data trimmed to short
+ * scalar fields, so no HTML or data URLs reach the client.
+ */
+
+import type { LogEntry } from './logger';
+import type { AuthComponent, ScanProgressEvent, ScanStage } from '@/lib/types/auth.types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+// First match wins, so more specific prefixes come first (A11Y_AUTH_ before A11Y_AUDIT)
+const STAGE_PATTERNS: Array<[RegExp, ScanStage]> = [
+    [/^CACHE_|^SCAN_SUCCESS_CACHED$/, 'cache'],
+    [/^BROWSER_/, 'browser'],
+    [/^(?:FLOW_|LOGIN_DISCOVERY_)/, 'explore'],
+    [/^(?:SCRAPE_|MODERN_WEB_|AUTH_MODAL_|AUTH_TRIGGER_|SHADOW_DOM_|HTML_EXTRACT_|NETWORK_CAPTURE_|WEBAUTHN_PROBE_|COOKIE_NAMES_|PLATFORM_GLOBALS_|A11Y_AUTH_)/, 'scrape'],
+    [/^(?:AI_|PARSE_)/, 'ai'],
+    [/^(?:EXTRACT_|SNIPPET_|TRY_SELECTOR|SELECTOR_|FALLBACK_|OAUTH_FALLBACK|PREVIEW_|ELEMENT_SCREENSHOT_)/, 'extract'],
+    [/^(?:SECURITY_AUDIT|A11Y_AUDIT|ANNOTATED_SCREENSHOT)/, 'audit'],
+    [/^(?:DETECT|PATTERN_|HYBRID_|SIGNAL_|PLATFORM_FINGERPRINT|DEDUP|HTML_MATCH)/, 'detect'],
+    [/^(?:SCAN_|PAGE_CLOSED|CLEANUP_)/, 'cleanup'],
+];
+
+const LIMITS = {
+    maxFields: 8,
+    maxString: 160,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Event Building
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Stage of `step`; unknown steps stay in the `previous` stage */
+export const stageOf = (step: string, previous: ScanStage = 'scrape'): ScanStage =>
+    STAGE_PATTERNS.find(([pattern]) => pattern.test(step))?.[1] ?? previous;
+
+export const toProgressEvent = (entry: LogEntry, startTime: number, previous?: ScanStage): ScanProgressEvent => {
+    const data = entry.data ? compactData(entry.data) : undefined;
+
+    return {
+        step: entry.step,
+        stage: stageOf(entry.step, previous),
+        level: entry.level,
+        elapsed: entry.timestamp - startTime,
+        ...(entry.message ? { message: shorten(entry.message) } : {}),
+        ...(data && Object.keys(data).length ? { data } : {}),
+    };
+};
+
+/** A component as extracted so far, without the preview and element screenshot */
+export const partialComponent = (component: AuthComponent): AuthComponent =>
+    ({ ...component, preview: undefined, screenshot: undefined });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const compactData = (data: Record<string, unknown>): Record<string, string | number | boolean> => {
+    const compact: Record<string, string | number | boolean> = {};
+
+    for (const [key, value] of Object.entries(data)) {
+        if (Object.keys(compact).length >= LIMITS.maxFields) break;
+
+        if (typeof value === 'number' || typeof value === 'boolean') {
+            compact[key] = value;
+        } else if (typeof value === 'string' && !value.startsWith('data:')) {
+            compact[key] = shorten(value);
+        } else if (Array.isArray(value) && value.every(v => ['string', 'number', 'boolean'].includes(typeof v))) {
+            compact[key] = shorten(value.join(', '));
+        }
+    }
+
+    return compact;
+};
+
+const shorten = (value: string): string =>
+    value.length > LIMITS.maxString ? `${value.slice(0, LIMITS.maxString)}...` : value;
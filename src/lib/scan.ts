@@ -0,0 +1,333 @@
+/**
+ * Scan Service
+ *
+ * One scan end to end: cache lookup, scrape, detection, caching, history
+ * and cleanup of the browser context. Shared by the single-URL and batch
+ * API routes; the batch runner fans URLs out over the shared browser pool
+ * with a bounded number of scans in flight.
+ */
+
+import { scrapeWebsite } from './scraper';
+import { detectAuthentication } from './detector';
+import { logger } from './logger';
+import { browserPool } from './browser-pool';
+import { detectionCache } from './cache';
+import { scanHistory } from './scan-history';
+import { filterByConfidence } from './confidence';
+import type { ScanReport } from './report';
+import type { AuthComponent, DetectionResult } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+export interface ScanOptions {
+    /** Drops components scoring below it */
+    minConfidence?: number;
+    /** Walks identifier-first login steps into `flow` */
+    explore?: boolean;
+    /** Set false to scan the URL as-is, without following it to a login page */
+    discover?: boolean;
+    /** Scrape time budget in ms, see `ScrapeOptions.timeout` */
+    timeout?: number;
+    /** Cancels the scan; a cancelled scan is never cached */
+    signal?: AbortSignal;
+    /** See `DetectionOptions.onComponent` */
+    onComponent?: (component: AuthComponent) => void;
+}
+
+export type ScanOutcome =
+    | { success: true; report: ScanReport }
+    | { success: false; error: string };
+
+export type BatchScanEntry =
+    | { url: string; success: true; result: ScanReport }
+    | { url: string; success: false; error: string };
+
+export interface BatchScanResult {
+    total: number;
+    succeeded: number;
+    failed: number;
+    cached: number;
+    /** URLs not scanned, or cut short, because the batch ran out of time; counted in `failed` */
+    skipped: number;
+    /** Input URLs dropped because they normalize to an earlier one */
+    duplicates: string[];
+    results: BatchScanEntry[];
+    duration: number;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+export const BATCH_CONFIG = {
+    MAX_URLS: 50,
+    DEFAULT_CONCURRENCY: 3,
+    // Every scan holds its own browser context; more than this starves the shared browser
+    MAX_CONCURRENCY: 5,
+    // Under the route's maxDuration (300s in vercel.json), leaving time to send the response
+    TIME_BUDGET: 270000,
+} as const;
+
+const BUDGET_EXCEEDED = 'Batch time budget exceeded';
+
+/*============================================================================*
+ * SINGLE SCAN
+ *============================================================================*/
+
+/**
+ * Validate shared scan options from a request body. Returns an error message,
+ * or null when the options are usable. Routes that answer within one request
+ * pass `allowExplore: false`: exploration adds up to 45s, more than they can
+ * wait for.
+ */
+export function validateScanOptions(
+    { minConfidence, explore, discover }: Record<string, unknown>,
+    { allowExplore = true }: { allowExplore?: boolean } = {}
+): string | null {
+    if (minConfidence !== undefined && (typeof minConfidence !== 'number' || !(minConfidence >= 0 && minConfidence <= 1))) {
+        return 'minConfidence must be a number between 0 and 1';
+    }
+
+    if (explore !== undefined && typeof explore !== 'boolean') {
+        return 'explore must be a boolean';
+    }
+
+    if (explore && !allowExplore) {
+        return 'explore can run longer than this route allows; submit the scan to POST /api/jobs instead';
+    }
+
+    if (discover !== undefined && typeof discover !== 'boolean') {
+        return 'discover must be a boolean';
+    }
+
+    return null;
+}
+
+/**
+ * Scan `url`, serving it from the cache when possible. Failures to load the
+ * page or to detect are returned, not thrown.
+ */
+export async function runScan(url: string, requestId: string, options: ScanOptions = {}): Promise<ScanOutcome> {
+    const startTime = Date.now();
+    const applyFilters = (result: DetectionResult): DetectionResult =>
+        options.minConfidence !== undefined ? filterByConfidence(result, options.minConfidence) : result;
+
+    /**
+     * Check cache first (99%+ faster for cache hits)
+     */
+    const cachedResult = detectionCache.get(url, requestId);
+    // A cached scan without a flow can't answer an exploration request, nor a discovered one a scan of the URL itself
+    if (cachedResult && (!options.explore || cachedResult.flow) && (options.discover !== false || !cachedResult.discovery)) {
+        logger.success(requestId, 'SCAN_SUCCESS_CACHED', {
+            found: cachedResult.found,
+            componentCount: cachedResult.components.length,
+            detectionMethod: cachedResult.detectionMethod,
+            duration: `${Date.now() - startTime}ms`,
+            cached: true,
+        }, startTime);
+
+        return { success: true, report: { ...applyFilters(cachedResult), cached: true } };
+    }
+
+    /**
+     * Step 1: Scrape website (get HTML + screenshot + live page)
+     */
+    const scrapeResult = await scrapeWebsite(url, requestId, {
+        exploreFlow: options.explore === true,
+        discoverLogin: options.discover,
+        timeout: options.timeout,
+        signal: options.signal,
+    });
+
+    if (options.signal?.aborted) {
+        return { success: false, error: 'Scan cancelled' };
+    }
+
+    if (!scrapeResult.success || !scrapeResult.html || !scrapeResult.page) {
+        return { success: false, error: scrapeResult.error || 'Failed to scrape website' };
+    }
+
+    try {
+        /**
+         * Step 2: Detect authentication components
+         *
+         * Pass:
+         * - HTML (for AI analysis)
+         * - Screenshot (for visual context)
+         * - Live page (for Playwright extraction)
+         */
+        // Audits and selectors refer to the page as loaded, after discovery and redirects
+        const discovery = scrapeResult.metadata?.discovery;
+        const pageUrl = scrapeResult.page.url();
+        const detected = await detectAuthentication(
+            scrapeResult.html,
+            /^https?:/i.test(pageUrl) ? pageUrl : discovery?.authUrl ?? url,
+            scrapeResult.screenshot,
+            scrapeResult.page,
+            requestId,
+            { scrapeMetadata: scrapeResult.metadata, onComponent: options.onComponent }
+        );
+        const flow = scrapeResult.metadata?.flow;
+        const detectionResult: DetectionResult = {
+            ...detected,
+            url,
+            ...(flow ? { flow } : {}),
+            ...(discovery ? { discovery } : {}),
+        };
+
+        // Detection on a closed page degrades instead of throwing; don't keep that result
+        if (options.signal?.aborted) {
+            return { success: false, error: 'Scan cancelled' };
+        }
+
+        logger.success(
+            requestId,
+            'SCAN_SUCCESS',
+            {
+                found: detectionResult.found,
+                componentCount: detectionResult.components.length,
+                detectionMethod: detectionResult.detectionMethod,
+                duration: `${Date.now() - startTime}ms`,
+            },
+            startTime
+        );
+
+        /**
+         * Cache the detection result for future requests and keep it in the
+         * URL's history
+         */
+        detectionCache.set(url, detectionResult, requestId);
+        await scanHistory.record(url, detectionResult, requestId, scrapeResult.page);
+
+        return {
+            success: true,
+            report: {
+                ...applyFilters(detectionResult),
+                pageTitle: scrapeResult.title,
+                screenshot: scrapeResult.screenshot,
+                cached: false,
+            },
+        };
+    } catch (error) {
+        logger.error(requestId, 'SCAN_ERROR', error as Error, { url });
+        return { success: false, error: error instanceof Error ? error.message : 'Detection failed' };
+    } finally {
+        try {
+            await scrapeResult.page.close();
+            logger.info(requestId, 'SCAN_CLEANUP_PAGE_CLOSED', {
+                message: 'Page closed after detection',
+            });
+        } catch (closeError) {
+            logger.warn(requestId, 'SCAN_CLEANUP_PAGE_CLOSE_ERROR', 'Failed to close page', {
+                error: closeError instanceof Error ? closeError.message : String(closeError),
+            });
+        }
+
+        if (scrapeResult.context) {
+            await browserPool.closeContext(scrapeResult.context, requestId);
+        }
+    }
+}
+
+/*============================================================================*
+ * BATCH SCAN
+ *============================================================================*/
+
+/**
+ * Scan `urls` with at most `concurrency` scans in flight. URLs that normalize
+ * to the same cache key are scanned once; results keep input order. Each
+ * scan logs under `<requestId>-<n>`. After `BATCH_CONFIG.TIME_BUDGET` the
+ * scans in flight are cancelled and the rest skipped, so finished results
+ * are still returned.
+ */
+export async function runBatchScan(
+    urls: string[],
+    requestId: string,
+    options: ScanOptions = {},
+    concurrency: number = BATCH_CONFIG.DEFAULT_CONCURRENCY
+): Promise<BatchScanResult> {
+    const startTime = Date.now();
+    const { unique, duplicates } = dedupeURLs(urls);
+    const workers = Math.max(1, Math.min(concurrency, BATCH_CONFIG.MAX_CONCURRENCY, unique.length));
+
+    logger.info(requestId, 'BATCH_SCAN_START', {
+        urls: urls.length,
+        unique: unique.length,
+        duplicates: duplicates.length,
+        concurrency: workers,
+    });
+
+    const results = new Array<BatchScanEntry>(unique.length);
+    const deadline = AbortSignal.timeout(BATCH_CONFIG.TIME_BUDGET);
+    const signal = options.signal ? AbortSignal.any([options.signal, deadline]) : deadline;
+    let next = 0;
+
+    // Each worker pulls the next URL until none are left
+    const worker = async () => {
+        while (next < unique.length) {
+            const index = next++;
+            const url = unique[index];
+            if (deadline.aborted) {
+                results[index] = { url, success: false, error: BUDGET_EXCEEDED };
+                continue;
+            }
+
+            const outcome = await runScan(url, `${requestId}-${index + 1}`, { ...options, signal }).catch(
+                (error): ScanOutcome => ({ success: false, error: error instanceof Error ? error.message : String(error) })
+            );
+
+            // Cached entries carry no page screenshot; drop fresh ones too so the response stays bounded
+            results[index] = outcome.success
+                ? { url, success: true, result: { ...outcome.report, screenshot: undefined } }
+                : { url, success: false, error: deadline.aborted ? BUDGET_EXCEEDED : outcome.error };
+        }
+    };
+
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    const batch: BatchScanResult = {
+        total: results.length,
+        succeeded: results.filter(r => r.success).length,
+        failed: results.filter(r => !r.success).length,
+        cached: results.filter(r => r.success && r.result.cached).length,
+        skipped: results.filter(r => !r.success && r.error === BUDGET_EXCEEDED).length,
+        duplicates,
+        results,
+        duration: Date.now() - startTime,
+    };
+
+    logger.success(requestId, 'BATCH_SCAN_DONE', {
+        total: batch.total,
+        succeeded: batch.succeeded,
+        failed: batch.failed,
+        cached: batch.cached,
+        skipped: batch.skipped,
+        duration: `${batch.duration}ms`,
+    }, startTime);
+
+    return batch;
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+function dedupeURLs(urls: string[]): { unique: string[]; duplicates: string[] } {
+    const seen = new Set<string>();
+    const unique: string[] = [];
+    const duplicates: string[] = [];
+
+    for (const url of urls) {
+        const key = detectionCache.normalizeURL(url);
+        if (seen.has(key)) {
+            duplicates.push(url);
+        } else {
+            seen.add(key);
+            unique.push(url);
+        }
+    }
+
+    return { unique, duplicates };
+}
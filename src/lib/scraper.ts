@@ -2,7 +2,7 @@
  * Web Scraper Service - AI-Powered 
  */
 
-import { Page, BrowserContext } from 'playwright';
+import { Page, BrowserContext, Frame } from 'playwright';
 import { browserPool } from './browser-pool';
 import { logger } from './logger';
 import {
@@ -11,6 +11,12 @@ import {
     waitForModernWebApp,
     getAccessibilityAuthSignals,
 } from './modern-web-helpers';
+import { startNetworkCapture } from './network-capture';
+import { installWebAuthnProbe, readWebAuthnProbe } from './webauthn-probe';
+import { exploreLoginFlow } from './flow-explorer';
+import { discoverLoginPage } from './login-discovery';
+import { PLATFORM_GLOBALS } from './platform-fingerprint';
+import type { AuthFlow, LoginDiscovery, NetworkAuthSignal, WebAuthnProbeResult } from '@/lib/types/auth.types';
 
 /*============================================================================*
  * TYPE DEFINITIONS
@@ -28,16 +34,52 @@ export interface ScrapeResult {
     metadata?: ScrapeMetadata;
 }
 
-interface ScrapeMetadata {
+export interface ScrapeMetadata {
     hasShadowDOM?: boolean;
     modalTriggered?: boolean;
     hasAuthInA11y?: boolean;
     a11ySignals?: string[];
+    /** Auth-related requests seen while the page loaded */
+    networkSignals?: NetworkAuthSignal[];
+    /** WebAuthn calls and passkey inputs seen by the instrumentation probe */
+    webauthn?: WebAuthnProbeResult;
+    /** Identifier-first login steps, when `exploreFlow` was requested */
+    flow?: AuthFlow;
+    /** Path from an entry page to the login page that was scraped */
+    discovery?: LoginDiscovery;
+    /** HTML of child frames that contain interactive elements */
+    frames?: FrameContent[];
+    /** Distinct request URLs (origin + path) seen while the page loaded */
+    requestUrls?: string[];
+    /** Names only; cookie values are never read */
+    cookieNames?: string[];
+    /** Identity SDK globals defined on the page, e.g. `Clerk` */
+    jsGlobals?: string[];
+}
+
+export interface FrameContent {
+    url: string;
+    name?: string;
+    /** Frame origin differs from the top-level page */
+    crossOrigin: boolean;
+    html: string;
+}
+
+export interface ScrapeOptions {
+    /** Submit a placeholder identifier to discover later login steps */
+    exploreFlow?: boolean;
+    /** Follow entry pages to their login page (default true) */
+    discoverLogin?: boolean;
+    /** Overrides `CONFIG.TIMEOUTS.TOTAL`, e.g. for background jobs */
+    timeout?: number;
+    /** Aborting closes the browser context, failing the scrape or the detection using its page */
+    signal?: AbortSignal;
 }
 
 interface ContentExtractionResult {
     html: string;
     title: string;
+    frames: FrameContent[];
     hasShadowDOM: boolean;
     hasAuthInA11y: boolean;
     a11ySignals: string[];
@@ -54,6 +96,16 @@ const CONFIG = {
         TOTAL: 60000,
         SCREENSHOT: 10000,
         WAIT_AFTER_LOAD: 3000,
+        FRAME_CONTENT: 5000,
+        FLOW_EXPLORATION: 45000,
+        // New discovery hops only start within this window
+        LOGIN_DISCOVERY: 20000,
+        // New flow steps only start within this window so the last one can finish
+        FLOW_STEP_WINDOW: 20000,
+    },
+    FRAMES: {
+        MAX_FRAMES: 15,
+        MAX_HTML_BYTES: 200 * 1024,
     },
     SCREENSHOT: {
         TYPE: 'jpeg' as const,
@@ -66,21 +118,26 @@ const CONFIG = {
  * MAIN SCRAPING FUNCTION
  *============================================================================*/
 
-export async function scrapeWebsite(url: string, requestId: string): Promise<ScrapeResult> {
+export async function scrapeWebsite(url: string, requestId: string, options: ScrapeOptions = {}): Promise<ScrapeResult> {
     const startTime = Date.now();
     let context: BrowserContext | undefined;
     let page: Page | undefined;
+    const totalTimeout = (options.timeout ?? CONFIG.TIMEOUTS.TOTAL)
+        + (options.exploreFlow ? CONFIG.TIMEOUTS.FLOW_EXPLORATION : 0)
+        + (options.discoverLogin !== false ? CONFIG.TIMEOUTS.LOGIN_DISCOVERY : 0);
 
     logger.info(requestId, 'SCRAPE_START', {
         url,
         navigationTimeout: `${CONFIG.TIMEOUTS.NAVIGATION}ms`,
-        totalTimeout: `${CONFIG.TIMEOUTS.TOTAL}ms`,
+        totalTimeout: `${totalTimeout}ms`,
+        exploreFlow: !!options.exploreFlow,
+        discoverLogin: options.discoverLogin !== false,
     });
 
     try {
         const result = await executeWithTimeout(
-            performScrape(url, requestId, startTime),
-            CONFIG.TIMEOUTS.TOTAL,
+            performScrape(url, requestId, startTime, options),
+            totalTimeout,
             'Scraping timeout'
         );
 
@@ -111,27 +168,60 @@ export async function scrapeWebsite(url: string, requestId: string): Promise<Scr
 async function performScrape(
     url: string,
     requestId: string,
-    startTime: number
+    startTime: number,
+    options: ScrapeOptions
 ): Promise<ScrapeResult> {
     let context: BrowserContext | undefined;
     let page: Page | undefined;
 
     try {
+        options.signal?.throwIfAborted();
         context = await browserPool.createContext(requestId);
+        const openContext = context;
+        const signal = options.signal;
+        const onAbort = () => {
+            logger.warn(requestId, 'SCRAPE_ABORTED', 'Closing browser context');
+            void browserPool.closeContext(openContext, requestId);
+        };
+        // Detection keeps using the page after this returns; detach when the context closes
+        signal?.addEventListener('abort', onAbort, { once: true });
+        openContext.once('close', () => signal?.removeEventListener('abort', onAbort));
+        await installWebAuthnProbe(context, requestId);
         page = await context.newPage();
+        const capture = startNetworkCapture(page, requestId);
 
         await navigateToUrl(page, url, requestId);
         await waitForModernWebApp(page, requestId);
         await page.waitForTimeout(1500);
 
+        // Entry pages (homepages) are swapped for the login page they link to
+        const discovery = options.discoverLogin === false
+            ? undefined
+            : await discoverLoginPage(page, CONFIG.TIMEOUTS.LOGIN_DISCOVERY, requestId);
+        const modalRevealed = discovery?.steps.some(step => step.action === 'modal') ?? false;
+
         const [contentResult, screenshot] = await Promise.all([
-            extractAllContent(page, requestId),
+            extractAllContent(page, requestId, modalRevealed),
             captureScreenshot(page, requestId),
         ]);
 
+        capture.stop();
+        const networkSignals = capture.signals();
+        const requestUrls = capture.requestUrls();
+        const webauthn = await readWebAuthnProbe(page, requestId);
+        const [cookieNames, jsGlobals] = await Promise.all([
+            collectCookieNames(context, requestId),
+            collectPlatformGlobals(page, requestId),
+        ]);
+
+        // Runs in its own page so the scraped page stays as detection saw it
+        const flow = options.exploreFlow
+            ? await exploreLoginFlow(context, discovery?.authUrl ?? url, CONFIG.TIMEOUTS.FLOW_STEP_WINDOW, requestId)
+            : undefined;
+
         logScrapeSuccess(requestId, url, contentResult, screenshot, startTime);
 
-        return buildSuccessResult(url, contentResult, screenshot, page, context);
+        return buildSuccessResult(url, contentResult, screenshot, { networkSignals, requestUrls, webauthn, flow, discovery, cookieNames, jsGlobals }, page, context);
     } catch (error) {
         logger.error(requestId, 'SCRAPE_ERROR', error as Error, {
             url,
@@ -172,18 +262,21 @@ async function navigateToUrl(page: Page, url: string, requestId: string): Promis
 
 async function extractAllContent(
     page: Page,
-    requestId: string
+    requestId: string,
+    modalRevealed = false
 ): Promise<ContentExtractionResult> {
     logger.info(requestId, 'SCRAPE_EXTRACT_CONTENT', {
         message: 'Extracting HTML from multiple sources',
     });
 
-    const [modalTriggered, regularHTML, shadowHTML, a11yData, title] = await Promise.all([
-        triggerAuthModals(page, requestId),
+    const [modalTriggered, regularHTML, shadowHTML, a11yData, title, frames] = await Promise.all([
+        // Clicking the trigger again could close a modal that discovery opened
+        modalRevealed ? Promise.resolve(true) : triggerAuthModals(page, requestId),
         page.content(),
         extractShadowDOMContent(page, requestId),
         getAccessibilityAuthSignals(page, requestId),
         page.title(),
+        extractFrameContents(page, requestId),
     ]);
 
     const html = combineHTMLSources(regularHTML, shadowHTML);
@@ -197,11 +290,13 @@ async function extractAllContent(
         hasAuthInA11y: a11yData.hasAuth,
         title: title.slice(0, 100),
         modalTriggered,
+        frames: frames.length,
     });
 
     return {
         html,
         title,
+        frames,
         hasShadowDOM,
         hasAuthInA11y: a11yData.hasAuth,
         a11ySignals: a11yData.signals,
@@ -209,6 +304,46 @@ async function extractAllContent(
     };
 }
 
+/**
+ * Collect the HTML of every child frame, same- or cross-origin. Frames with
+ * no form controls, buttons or links (ads, trackers, blank shims) are dropped.
+ */
+async function extractFrameContents(page: Page, requestId: string): Promise<FrameContent[]> {
+    const topOrigin = safeOrigin(page.url());
+    const childFrames = page.frames().filter(frame => frame !== page.mainFrame() && !frame.isDetached());
+    const frames: FrameContent[] = [];
+
+    for (const frame of childFrames.slice(0, CONFIG.FRAMES.MAX_FRAMES)) {
+        const html = await readFrameHTML(frame);
+        if (!html || !/<(?:input|button|form|a)\b|role=["']button/i.test(html)) continue;
+
+        const url = frame.url();
+        frames.push({
+            url,
+            name: frame.name() || undefined,
+            crossOrigin: safeOrigin(url) !== topOrigin,
+            html: html.slice(0, CONFIG.FRAMES.MAX_HTML_BYTES),
+        });
+    }
+
+    logger.info(requestId, 'SCRAPE_FRAMES', {
+        total: childFrames.length,
+        kept: frames.length,
+        crossOrigin: frames.filter(f => f.crossOrigin).length,
+        urls: frames.map(f => f.url.slice(0, 80)).join(', '),
+    });
+
+    return frames;
+}
+
+async function readFrameHTML(frame: Frame): Promise<string | undefined> {
+    try {
+        return await executeWithTimeout(frame.content(), CONFIG.TIMEOUTS.FRAME_CONTENT, 'Frame content timeout');
+    } catch {
+        return undefined;
+    }
+}
+
 function combineHTMLSources(regularHTML: string, shadowHTML: string): string {
     if (shadowHTML.length === 0) {
         return regularHTML;
@@ -217,6 +352,40 @@ function combineHTMLSources(regularHTML: string, shadowHTML: string): string {
     return `${regularHTML}\n\n<!-- SHADOW DOM CONTENT -->\n${shadowHTML}`;
 }
 
+/*============================================================================*
+ * PLATFORM SIGNALS
+ *============================================================================*/
+
+async function collectCookieNames(context: BrowserContext, requestId: string): Promise<string[]> {
+    try {
+        const cookies = await context.cookies();
+        return [...new Set(cookies.map(cookie => cookie.name))];
+    } catch (error) {
+        logger.warn(requestId, 'COOKIE_NAMES_FAILED', extractErrorMessage(error));
+        return [];
+    }
+}
+
+/**
+ * Which of the fingerprinting globals (dotted `window` paths) are defined on
+ * the main frame.
+ */
+async function collectPlatformGlobals(page: Page, requestId: string): Promise<string[]> {
+    try {
+        return await page.evaluate((paths: string[]) => paths.filter(path => {
+            let value: unknown = window;
+            for (const key of path.split('.')) {
+                if (value === null || value === undefined) return false;
+                value = (value as Record<string, unknown>)[key];
+            }
+            return value !== null && value !== undefined;
+        }), PLATFORM_GLOBALS);
+    } catch (error) {
+        logger.warn(requestId, 'PLATFORM_GLOBALS_FAILED', extractErrorMessage(error));
+        return [];
+    }
+}
+
 /*============================================================================*
  * SCREENSHOT CAPTURE
  *============================================================================*/
@@ -266,6 +435,7 @@ function buildSuccessResult(
     url: string,
     content: ContentExtractionResult,
     screenshot: string | undefined,
+    signals: Pick<ScrapeMetadata, 'networkSignals' | 'requestUrls' | 'webauthn' | 'flow' | 'discovery' | 'cookieNames' | 'jsGlobals'>,
     page: Page,
     context: BrowserContext
 ): ScrapeResult {
@@ -282,6 +452,8 @@ function buildSuccessResult(
             modalTriggered: content.modalTriggered,
             hasAuthInA11y: content.hasAuthInA11y,
             a11ySignals: content.a11ySignals,
+            frames: content.frames,
+            ...signals,
         },
     };
 }
@@ -358,6 +530,14 @@ async function executeWithTimeout<T>(
     return Promise.race([promise, timeoutPromise]);
 }
 
+function safeOrigin(url: string): string {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return url;
+    }
+}
+
 function extractErrorMessage(error: unknown): string {
     if (error instanceof Error) {
         return error.message;
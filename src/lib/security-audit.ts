@@ -0,0 +1,208 @@
+/**
+ * Login Form Security Audit
+ *
+ * Static checks on the markup of detected credential forms: where and how
+ * they submit, CSRF tokens, password autocomplete and page transport.
+ * Findings are attached to each audited component for triage.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { AuthComponent, SecurityFinding } from '@/lib/types/auth.types';
+import { buildElementSelector } from './dom-detector';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AuditDocument {
+    html: string;
+    /** URL the document was served from; the top page or the component's frame */
+    url: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+const AUDITED_TYPES = new Set<AuthComponent['type']>(['traditional']);
+
+const CSRF_FIELD = /csrf|xsrf|authenticity_token|requestverificationtoken|^_token$|^token$|nonce/i;
+const CSRF_META = 'meta[name*="csrf" i], meta[name*="xsrf" i]';
+
+// Loopback pages are local fixtures, not production deployments
+const LOCAL_HOSTS = /^(?:localhost|127\.0\.0\.1|\[::1\])$/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Entry Point
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Audit every credential-form component and return the components with
+ * `security` filled in. `documentFor` supplies the HTML the component was
+ * found in (page or frame). Components of other types pass through.
+ */
+export const auditComponents = (
+    components: AuthComponent[],
+    documentFor: (component: AuthComponent) => AuditDocument
+): AuthComponent[] => {
+    const parsed = new Map<string, CheerioAPI>();
+
+    return components.map(comp => {
+        if (!AUDITED_TYPES.has(comp.type)) return comp;
+
+        const doc = documentFor(comp);
+        if (!parsed.has(doc.url)) parsed.set(doc.url, cheerio.load(doc.html));
+        return { ...comp, security: auditComponent(parsed.get(doc.url)!, comp, doc.url) };
+    });
+};
+
+const auditComponent = ($: CheerioAPI, comp: AuthComponent, pageUrl: string): SecurityFinding[] => {
+    const findings: SecurityFinding[] = [];
+    const add = (finding: SecurityFinding) => {
+        if (!findings.some(f => f.id === finding.id && f.element === finding.element)) findings.push(finding);
+    };
+
+    const page = safeURL(pageUrl);
+    if (page?.protocol === 'http:' && !LOCAL_HOSTS.test(page.hostname)) {
+        add({ id: 'insecure-page', severity: 'high', message: `Login page is served over plain HTTP (${page.origin})` });
+    }
+
+    for (const target of auditTargets($, comp)) {
+        if (target.is('form')) {
+            auditForm($, target, page).forEach(add);
+        } else if (target.find('input[type="password"]').length > 0 || target.is('input[type="password"]')) {
+            add({
+                id: 'password-outside-form',
+                severity: 'low',
+                message: 'Password input is not inside a <form>; submission is script-driven and cannot be audited from markup',
+                element: buildElementSelector($, target),
+            });
+        }
+        auditPasswordAutocomplete($, target).forEach(add);
+    }
+
+    return findings;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+const auditForm = ($: CheerioAPI, form: Cheerio<Element>, page: URL | undefined): SecurityFinding[] => {
+    const findings: SecurityFinding[] = [];
+    const element = buildElementSelector($, form);
+    const hasPassword = form.find('input[type="password"]').length > 0;
+    const explicitMethod = form.attr('method')?.trim().toLowerCase();
+    const method = explicitMethod || 'get';
+    const rawAction = form.attr('action')?.trim();
+
+    // No action (or an empty one) submits to the page itself, or is handled by script
+    const action = rawAction && !/^javascript:/i.test(rawAction) && page ? safeURL(rawAction, page) : undefined;
+    if (action?.protocol === 'http:' && !LOCAL_HOSTS.test(action.hostname)) {
+        findings.push({ id: 'insecure-form-action', severity: 'high', message: `Form submits over plain HTTP to ${action.origin}${action.pathname}`, element });
+    }
+    if (action && page && /^https?:$/.test(action.protocol) && action.origin !== page.origin) {
+        findings.push({ id: 'cross-origin-action', severity: 'medium', message: `Form submits to another origin (${action.origin})`, element });
+    }
+
+    if (hasPassword && explicitMethod === 'get') {
+        findings.push({
+            id: 'password-over-get',
+            severity: 'high',
+            message: 'Password form uses GET; credentials end up in the URL, history and logs',
+            element,
+        });
+    } else if (hasPassword && !explicitMethod && rawAction) {
+        // Without an action the form is almost always submitted by script; with one, a native submit would use GET
+        findings.push({
+            id: 'password-over-get',
+            severity: 'low',
+            message: 'Password form has an action but no method attribute; a native submit would send credentials in the URL',
+            element,
+        });
+    }
+
+    if (method === 'post' && !hasCsrfToken($, form)) {
+        findings.push({ id: 'missing-csrf-token', severity: 'medium', message: 'POST form has no hidden CSRF token field and the page has no CSRF meta tag', element });
+    }
+
+    return findings;
+};
+
+const auditPasswordAutocomplete = ($: CheerioAPI, target: Cheerio<Element>): SecurityFinding[] => {
+    const formOff = target.is('form') && target.attr('autocomplete')?.toLowerCase() === 'off';
+    const inputs = target.is('input[type="password"]') ? target : target.find('input[type="password"]');
+
+    return inputs
+        .filter((_, el) => {
+            const value = $(el).attr('autocomplete')?.toLowerCase();
+            return value === 'off' || (formOff && !value);
+        })
+        .map((_, el): SecurityFinding => ({
+            id: 'password-autocomplete-off',
+            severity: 'low',
+            message: 'autocomplete="off" on a password field blocks password managers and encourages weak, reused passwords',
+            element: buildElementSelector($, $(el)),
+        }))
+        .get();
+};
+
+const hasCsrfToken = ($: CheerioAPI, form: Cheerio<Element>): boolean =>
+    form.find('input[type="hidden"]').toArray().some(el => CSRF_FIELD.test($(el).attr('name') || '')) ||
+    $(CSRF_META).length > 0;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Target Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Elements to audit for a component: the form around its selector match,
+ * else (selector missing or Playwright-only syntax) every form or loose
+ * container with a password field in the document.
+ */
+const auditTargets = ($: CheerioAPI, comp: AuthComponent): Cheerio<Element>[] => {
+    const selectors = [comp.selector?.stable, comp.details.playwrightSelector, comp.selector?.original]
+        .filter((s): s is string => !!s);
+
+    for (const selector of selectors) {
+        const match = selectFirst($, selector);
+        if (!match) continue;
+        const form = match.is('form') ? match : match.parents('form').first();
+        return [form.length ? form : match];
+    }
+
+    const targets: Cheerio<Element>[] = [];
+    const seen = new Set<Element>();
+    $<Element, string>('input[type="password"]').each((_, input) => {
+        const form = $(input).parents('form').first();
+        const target = form.length ? form : $(input);
+        const node = target.get(0)!;
+        if (seen.has(node)) return;
+        seen.add(node);
+        targets.push(target);
+    });
+    return targets;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const selectFirst = ($: CheerioAPI, selector: string): Cheerio<Element> | undefined => {
+    try {
+        const match = $<Element, string>(selector).first();
+        return match.length ? match : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const safeURL = (url: string, base?: URL): URL | undefined => {
+    try {
+        return new URL(url, base);
+    } catch {
+        return undefined;
+    }
+};
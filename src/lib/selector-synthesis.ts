@@ -0,0 +1,129 @@
+/**
+ * Selector Synthesis
+ *
+ * Derives a stable selector for an element matched on the live page, ranked
+ * by robustness, and verifies it resolves to exactly that one element.
+ */
+
+import { Frame, Locator, Page } from 'playwright';
+import { logger } from './logger';
+import type { SelectorInfo, SelectorStrategy } from '@/lib/types/auth.types';
+
+interface SelectorCandidate {
+    strategy: SelectorStrategy;
+    selector: string;
+}
+
+// Most robust first
+const STRATEGY_ORDER: SelectorStrategy[] = ['data-testid', 'id', 'name', 'role', 'structural'];
+
+/**
+ * Build `SelectorInfo` for `element`, the node `original` resolved to.
+ * `matchCount` is how many elements `original` matched in `page`, which is
+ * the frame the element lives in for iframe components.
+ */
+export const stabilizeSelector = async (
+    page: Page | Frame,
+    element: Locator,
+    original: string,
+    matchCount: number,
+    reqId: string
+): Promise<SelectorInfo> => {
+    const info: SelectorInfo = { original, matchCount, verified: false };
+
+    try {
+        const handle = await element.elementHandle();
+        if (!handle) return info;
+
+        const candidates = await element.evaluate(collectCandidates);
+        candidates.sort((a, b) => STRATEGY_ORDER.indexOf(a.strategy) - STRATEGY_ORDER.indexOf(b.strategy));
+
+        for (const candidate of candidates) {
+            const loc = page.locator(candidate.selector);
+            if ((await loc.count().catch(() => 0)) !== 1) continue;
+
+            const same = await loc.evaluate((el, target) => el === target, handle).catch(() => false);
+            if (same) {
+                logger.info(reqId, 'SELECTOR_STABILIZED', { original, stable: candidate.selector, strategy: candidate.strategy, originalMatches: matchCount });
+                await handle.dispose();
+                return { ...info, stable: candidate.selector, strategy: candidate.strategy, verified: true };
+            }
+        }
+
+        await handle.dispose();
+        logger.warn(reqId, 'SELECTOR_UNSTABLE', 'No candidate resolved to a single element', { original, candidates: candidates.length });
+    } catch (err) {
+        logger.warn(reqId, 'SELECTOR_STABILIZE_ERR', err instanceof Error ? err.message : String(err), { original });
+    }
+
+    return info;
+};
+
+/**
+ * Runs in the browser. Kept self-contained because Playwright serializes it.
+ */
+const collectCandidates = (el: Element): SelectorCandidate[] => {
+    const candidates: SelectorCandidate[] = [];
+    const tag = el.tagName.toLowerCase();
+    const quote = (v: string) => `"${v.replace(/["\\]/g, '\\$&')}"`;
+    // Framework-generated ids (React `:r1:`, Ember `ember123`, long hex/digit runs) change between builds
+    const looksGenerated = (v: string) => /^:|^ember\d+|\d{4,}|[a-f0-9]{8,}/i.test(v);
+
+    for (const attr of ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy']) {
+        const value = el.getAttribute(attr);
+        if (value) candidates.push({ strategy: 'data-testid', selector: `[${attr}=${quote(value)}]` });
+    }
+
+    const id = el.getAttribute('id');
+    if (id && !looksGenerated(id)) {
+        candidates.push({ strategy: 'id', selector: `${tag}[id=${quote(id)}]` });
+    }
+
+    const name = el.getAttribute('name');
+    if (name && !looksGenerated(name)) {
+        candidates.push({ strategy: 'name', selector: `${tag}[name=${quote(name)}]` });
+    }
+
+    const implicitRoles: Record<string, string> = { button: 'button', a: 'link', form: 'form', select: 'combobox', textarea: 'textbox' };
+    const inputType = (el.getAttribute('type') || 'text').toLowerCase();
+    const role = el.getAttribute('role') ||
+        (tag === 'input'
+            ? (['submit', 'button', 'reset', 'image'].includes(inputType) ? 'button' : ['checkbox', 'radio'].includes(inputType) ? inputType : 'textbox')
+            : implicitRoles[tag]);
+
+    const labelledBy = el.getAttribute('aria-labelledby')?.split(/\s+/).map(ref => document.getElementById(ref)?.textContent || '').join(' ');
+    const labelFor = id ? document.querySelector(`label[for=${quote(id)}]`)?.textContent : null;
+    const accessibleName = (
+        el.getAttribute('aria-label') ||
+        labelledBy ||
+        labelFor ||
+        (tag === 'input' ? el.getAttribute('value') || el.getAttribute('placeholder') : (el as HTMLElement).innerText) ||
+        el.getAttribute('title') ||
+        el.querySelector('img[alt]')?.getAttribute('alt') ||
+        ''
+    ).replace(/\s+/g, ' ').trim();
+
+    if (role && accessibleName && accessibleName.length <= 80) {
+        candidates.push({ strategy: 'role', selector: `role=${role}[name=${quote(accessibleName)}]` });
+    }
+
+    // Structural path anchored at the nearest stable id, else <body>
+    const segments: string[] = [];
+    let current: Element | null = el;
+    while (current && current !== document.body && current !== document.documentElement) {
+        const curId = current.getAttribute('id');
+        if (current !== el && curId && !looksGenerated(curId)) {
+            segments.unshift(`[id=${quote(curId)}]`);
+            break;
+        }
+        const curTag = current.tagName.toLowerCase();
+        const parent: Element | null = current.parentElement;
+        const siblings = parent ? Array.from(parent.children).filter(c => c.tagName === current!.tagName) : [];
+        segments.unshift(siblings.length > 1 ? `${curTag}:nth-of-type(${siblings.indexOf(current) + 1})` : curTag);
+        current = parent;
+        if (current === document.body) segments.unshift('body');
+    }
+    if (segments.length) candidates.push({ strategy: 'structural', selector: segments.join(' > ') });
+
+    return candidates;
+};
@@ -0,0 +1,219 @@
+/**
+ * Snippet Preview Builder
+ *
+ * Turns a matched element into a standalone HTML document that looks like
+ * the live site: computed styles are inlined from the page and relative URLs
+ * resolved. The result is then sanitized server-side (no scripts, handlers,
+ * frames or script URLs) and locked down with a CSP, so it can be rendered
+ * in a sandboxed iframe.
+ */
+
+import * as cheerio from 'cheerio';
+import type { Element as DOMElement } from 'domhandler';
+import { Locator } from 'playwright';
+import { logger } from './logger';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+interface SerializedElement {
+    html: string;
+    /** Effective background behind the element, for the preview body */
+    background: string;
+    width: number;
+    baseUrl: string;
+}
+
+/*============================================================================*
+ * CONFIGURATION
+ *============================================================================*/
+
+const CONFIG = {
+    MAX_PREVIEW_BYTES: 200 * 1024,
+    MAX_ELEMENTS: 400,
+    TIMEOUTS: {
+        SERIALIZE: 5000,
+    },
+} as const;
+
+// Visual properties worth inlining; layout-only and animation properties are left out
+const STYLE_PROPERTIES = [
+    'display', 'box-sizing', 'width', 'height', 'min-width', 'max-width', 'min-height',
+    'margin', 'padding', 'gap', 'flex-direction', 'flex-wrap', 'align-items', 'justify-content', 'flex', 'grid-template-columns',
+    'position', 'top', 'left', 'right', 'bottom',
+    'color', 'background-color', 'background-image', 'background-size', 'background-position', 'background-repeat',
+    'border', 'border-top', 'border-right', 'border-bottom', 'border-left', 'border-radius', 'box-shadow', 'outline',
+    'font-family', 'font-size', 'font-weight', 'font-style', 'line-height', 'letter-spacing', 'text-align', 'text-decoration', 'text-transform', 'white-space',
+    'opacity', 'visibility', 'overflow', 'cursor', 'vertical-align', 'list-style',
+    'fill', 'stroke',
+];
+
+// Values that match the initial value and add nothing to the inline style
+const DEFAULT_VALUES = new Set(['', 'none', 'normal', 'auto', '0px', 'rgba(0, 0, 0, 0)', 'static', 'visible', 'start', 'baseline', 'nowrap normal', '0px none rgb(0, 0, 0)']);
+
+const SANITIZE = {
+    REMOVE_ELEMENTS: 'script, noscript, iframe, frame, frameset, object, embed, applet, base, link, meta, style, template, portal',
+    URL_ATTRIBUTES: ['href', 'src', 'poster', 'xlink:href', 'background', 'cite'],
+    SAFE_URL: /^(?:https?:|mailto:|tel:|#|data:image\/(?:png|gif|jpe?g|webp|svg\+xml);)/i,
+    UNSAFE_STYLE: /javascript:|expression\s*\(|-moz-binding|behavior\s*:/i,
+} as const;
+
+const PREVIEW_CSP = "default-src 'none'; img-src https: http: data:; style-src 'unsafe-inline'; font-src https: data:";
+
+/*============================================================================*
+ * PREVIEW BUILDING
+ *============================================================================*/
+
+/**
+ * Build a sanitized standalone document for `element`. Returns undefined
+ * when the element cannot be serialized or the result is too large.
+ */
+export async function buildSnippetPreview(element: Locator, requestId: string): Promise<string | undefined> {
+    try {
+        const serialized = await element.evaluate(
+            serializeWithStyles,
+            { properties: STYLE_PROPERTIES, defaults: [...DEFAULT_VALUES], maxElements: CONFIG.MAX_ELEMENTS },
+            { timeout: CONFIG.TIMEOUTS.SERIALIZE }
+        );
+
+        const document = wrapDocument(sanitizePreviewHTML(serialized.html), serialized);
+        if (document.length > CONFIG.MAX_PREVIEW_BYTES) {
+            logger.warn(requestId, 'PREVIEW_TOO_LARGE', 'Preview skipped', { size: `${Math.round(document.length / 1024)}KB` });
+            return undefined;
+        }
+        return document;
+    } catch (error) {
+        logger.warn(requestId, 'PREVIEW_FAILED', error instanceof Error ? error.message : String(error));
+        return undefined;
+    }
+}
+
+/**
+ * Runs in the page. Kept self-contained because Playwright serializes it.
+ * Clones the element, copies computed styles onto the clone and resolves
+ * URL attributes against the document base. Elements past `maxElements`
+ * keep their markup but not their styles.
+ */
+const serializeWithStyles = (
+    root: Element,
+    { properties, defaults, maxElements }: { properties: string[]; defaults: string[]; maxElements: number }
+): SerializedElement => {
+    const skip = new Set(defaults);
+    const placement = new Set(['position', 'top', 'left', 'right', 'bottom', 'margin']);
+    const clone = root.cloneNode(true) as Element;
+    const originals = [root, ...Array.from(root.querySelectorAll('*'))];
+    const copies = [clone, ...Array.from(clone.querySelectorAll('*'))];
+    const resolve = (value: string) => {
+        try {
+            return new URL(value, root.baseURI).href;
+        } catch {
+            return value;
+        }
+    };
+
+    originals.forEach((original, i) => {
+        const copy = copies[i];
+        if (!copy) return;
+
+        if (i < maxElements) {
+            const computed = getComputedStyle(original);
+            // The root is laid out by the preview body, not by its old offsets
+            const style = (i === 0 ? properties.filter(prop => !placement.has(prop)) : properties)
+                .map(prop => [prop, computed.getPropertyValue(prop)] as const)
+                .filter(([, value]) => !skip.has(value))
+                .map(([prop, value]) => `${prop}: ${value}`)
+                .join('; ');
+            copy.setAttribute('style', style);
+            copy.removeAttribute('class');
+        }
+
+        for (const attr of ['href', 'src', 'poster', 'action', 'formaction']) {
+            const value = original.getAttribute(attr);
+            if (value) copy.setAttribute(attr, resolve(value));
+        }
+        const srcset = original.getAttribute('srcset');
+        if (srcset) {
+            copy.setAttribute('srcset', srcset.split(',').map(part => {
+                const [url, ...descriptor] = part.trim().split(/\s+/);
+                return [resolve(url), ...descriptor].join(' ');
+            }).join(', '));
+        }
+    });
+
+    // First opaque background up the tree, so light-on-dark widgets stay readable
+    let background = 'rgb(255, 255, 255)';
+    for (let el: Element | null = root; el; el = el.parentElement) {
+        const color = getComputedStyle(el).backgroundColor;
+        if (color && color !== 'rgba(0, 0, 0, 0)' && color !== 'transparent') {
+            background = color;
+            break;
+        }
+    }
+
+    return {
+        html: clone.outerHTML,
+        background,
+        width: Math.round(root.getBoundingClientRect().width),
+        baseUrl: root.baseURI,
+    };
+};
+
+/*============================================================================*
+ * SANITIZATION
+ *============================================================================*/
+
+/**
+ * Strip anything executable from preview markup: script-like elements,
+ * `on*` handlers, script URLs, form targets and password values. Runs on the
+ * server because page scripts can tamper with in-page serialization.
+ */
+export function sanitizePreviewHTML(html: string): string {
+    const $ = cheerio.load(html, null, false);
+    $(SANITIZE.REMOVE_ELEMENTS).remove();
+
+    $<DOMElement, string>('*').each((_, el) => {
+        const node = $(el);
+
+        for (const name of Object.keys(el.attribs)) {
+            const value = el.attribs[name];
+            const lower = name.toLowerCase();
+
+            if (lower.startsWith('on') || lower === 'srcdoc' || lower === 'action' || lower === 'formaction' || lower === 'target') {
+                node.removeAttr(name);
+            } else if ((SANITIZE.URL_ATTRIBUTES as readonly string[]).includes(lower) && !SANITIZE.SAFE_URL.test(value.trim())) {
+                node.removeAttr(name);
+            } else if (lower === 'srcset' && value.split(',').some(part => !SANITIZE.SAFE_URL.test(part.trim()))) {
+                node.removeAttr(name);
+            } else if (lower === 'style' && SANITIZE.UNSAFE_STYLE.test(value)) {
+                node.removeAttr(name);
+            }
+        }
+    });
+
+    $('input[type="password"]').removeAttr('value');
+    return $.html();
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+function wrapDocument(body: string, serialized: SerializedElement): string {
+    const width = serialized.width > 0 ? `width: ${serialized.width}px; max-width: 100%;` : '';
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${PREVIEW_CSP}">
+<title>Preview of ${escapeHTML(serialized.baseUrl)}</title>
+</head>
+<body style="margin: 0; padding: 16px; display: flex; justify-content: center; background: ${escapeHTML(serialized.background)};">
+<div style="${width}">${body}</div>
+</body>
+</html>`;
+}
+
+function escapeHTML(value: string): string {
+    return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
@@ -0,0 +1,228 @@
+/**
+ * Playwright Test Scaffold Generator
+ *
+ * Turns a `DetectionResult` into a TypeScript Playwright spec: one
+ * visibility test per component, credential-filling tests for traditional
+ * forms (values from env vars) and provider-host checks for OAuth buttons.
+ */
+
+import type { AuthComponent, DetectionResult } from '@/lib/types/auth.types';
+import { getIdentityProvider, providerSelectors } from './identity-providers';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ENV = {
+    url: 'E2E_LOGIN_URL',
+    username: 'E2E_USERNAME',
+    password: 'E2E_PASSWORD',
+};
+
+const PLACEHOLDERS = {
+    username: 'e2e-user@example.com',
+    password: 'e2e-placeholder-password',
+};
+
+const FIELD_SELECTORS = {
+    identifier: 'input[type="email"], input[autocomplete~="username"], input[name*="email" i], input[name*="user" i], input[name*="login" i], input[type="text"]',
+    password: 'input[type="password"]',
+    submit: 'button[type="submit"], input[type="submit"], button:not([type])',
+};
+
+const INDENT = '    ';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Entry Point
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Suggested file name for the spec of `url`, e.g. `auth-example.com.spec.ts` */
+export const scaffoldFileName = (url: string): string => {
+    const host = safeHost(url) || 'site';
+    return `auth-${host.replace(/[^a-z0-9.-]/gi, '-')}.spec.ts`;
+};
+
+/**
+ * Render a ready-to-run Playwright spec for `result`. Components without a
+ * selector are listed in a comment instead of getting a test.
+ */
+export const generatePlaywrightTest = (result: DetectionResult): string => {
+    const host = safeHost(result.url) || result.url;
+    const located = result.components.filter(c => selectorOf(c));
+    const skipped = result.components.filter(c => !selectorOf(c));
+
+    const tests = located.flatMap((comp, i) => componentTests(comp, i + 1));
+    const needsHelpers = tests.some(t => t.some(line => line.includes('expectProviderHost(')));
+
+    return [
+        needsHelpers
+            ? `import { test, expect, type Locator, type Page } from '@playwright/test';`
+            : `import { test, expect } from '@playwright/test';`,
+        '',
+        `// Generated by auth-detector from a ${result.detectionMethod} scan of ${comment(result.url)}`,
+        `// Set ${ENV.username} and ${ENV.password} to run the sign-in test; never commit real credentials.`,
+        ...skipped.map(c => `// Not covered (no selector): ${comment(describe(c))}`),
+        '',
+        `const LOGIN_URL = process.env.${ENV.url} ?? ${literal(result.discovery?.authUrl ?? result.url)};`,
+        `const USERNAME = process.env.${ENV.username} ?? ${literal(PLACEHOLDERS.username)};`,
+        `const PASSWORD = process.env.${ENV.password} ?? ${literal(PLACEHOLDERS.password)};`,
+        '',
+        ...(needsHelpers ? [HELPERS, ''] : []),
+        `test.describe(${literal(`Authentication on ${host}`)}, () => {`,
+        ...indent([
+            'test.beforeEach(async ({ page }) => {',
+            `${INDENT}await page.goto(LOGIN_URL);`,
+            '});',
+            ...(tests.length ? tests.flatMap(t => ['', ...t]) : ['', `test.skip('no auth components with selectors were detected', async () => {});`]),
+        ]),
+        '});',
+        '',
+    ].join('\n');
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Builders
+// ─────────────────────────────────────────────────────────────────────────────
+
+const componentTests = (comp: AuthComponent, index: number): string[][] => {
+    const name = `#${index} ${describe(comp)}`;
+    const tests = [visibilityTest(comp, name)];
+
+    if (comp.type === 'traditional' && hasCredentialFields(comp)) tests.push(...credentialTests(comp, name));
+    if (comp.type === 'oauth') tests.push(...(comp.details.providers || []).map(p => providerTest(comp, name, p)).filter((t): t is string[] => !!t));
+
+    return tests;
+};
+
+const visibilityTest = (comp: AuthComponent, name: string): string[] => [
+    `test(${literal(`${name} is ${comp.visible === false ? 'present' : 'visible'}`)}, async ({ page }) => {`,
+    ...indent([
+        ...locatorLines(comp),
+        // Hidden at scan time (collapsed menu, modal): only require it in the DOM
+        comp.visible === false ? 'await expect(component).toBeAttached();' : 'await expect(component).toBeVisible();',
+    ]),
+    '});',
+];
+
+const credentialTests = (comp: AuthComponent, name: string): string[][] => {
+    const hasPassword = comp.details.fields?.includes('password') ?? true;
+    const fill = [
+        `const identifier = component.locator(${literal(FIELD_SELECTORS.identifier)}).first();`,
+        'await identifier.fill(USERNAME);',
+        'await expect(identifier).toHaveValue(USERNAME);',
+        ...(hasPassword ? [
+            `const password = component.locator(${literal(FIELD_SELECTORS.password)}).first();`,
+            'await password.fill(PASSWORD);',
+            'await expect(password).toHaveValue(PASSWORD);',
+        ] : []),
+    ];
+
+    return [
+        [
+            `test(${literal(`${name} accepts credentials`)}, async ({ page }) => {`,
+            ...indent([...locatorLines(comp), ...fill]),
+            '});',
+        ],
+        [
+            `test(${literal(`${name} signs in`)}, async ({ page }) => {`,
+            ...indent([
+                `test.skip(!process.env.${ENV.username} || !process.env.${ENV.password}, 'set ${ENV.username} and ${ENV.password} to run');`,
+                ...locatorLines(comp),
+                ...fill.filter(line => !line.startsWith('await expect')),
+                `await component.locator(${literal(FIELD_SELECTORS.submit)}).first().click();`,
+                '// Adjust to the post-login state of this site',
+                'await expect(page).not.toHaveURL(LOGIN_URL);',
+            ]),
+            '});',
+        ],
+    ];
+};
+
+const providerTest = (comp: AuthComponent, name: string, providerId: string): string[] | undefined => {
+    const provider = getIdentityProvider(providerId);
+    if (!provider) return undefined;
+
+    const hosts = [...new Set(provider.authEndpoints.map(e => e.split('/')[0]))];
+    const hostPattern = `(?:^|\\.)(?:${hosts.map(h => h.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})$`;
+    const single = (comp.details.providers?.length ?? 0) <= 1;
+
+    return [
+        `test(${literal(`${name}: ${provider.names[0]} button goes to ${hosts[0]}`)}, async ({ page }) => {`,
+        ...indent([
+            ...locatorLines(comp),
+            single
+                ? 'const button = component;'
+                : `const button = component.locator(${literal(providerSelectors(provider.id).join(', '))}).first();`,
+            `await expectProviderHost(page, button, new RegExp(${literal(hostPattern)}));`,
+        ]),
+        '});',
+    ];
+};
+
+// Shared by every OAuth test: a link/form target is checked directly, script buttons by clicking
+const HELPERS = `/** Assert the button leads to the provider: via its href/form action, else the first request after clicking (popups included) */
+async function expectProviderHost(page: Page, button: Locator, host: RegExp): Promise<void> {
+    await expect(button).toBeVisible();
+    const target = await button.evaluate(el => el.closest('a')?.href || el.closest('form')?.action || '');
+    if (target && host.test(new URL(target).hostname)) return;
+
+    const request = page.context().waitForEvent('request', {
+        predicate: r => host.test(new URL(r.url()).hostname),
+        timeout: 15000,
+    });
+    await button.click();
+    expect(host.test(new URL((await request).url()).hostname)).toBe(true);
+}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Verified stable selector first, then whatever the detector started from */
+const selectorOf = (comp: AuthComponent): string | undefined =>
+    (comp.selector?.verified ? comp.selector.stable : undefined) || comp.selector?.original || comp.details.playwrightSelector;
+
+const locatorLines = (comp: AuthComponent): string[] => {
+    const selector = literal(selectorOf(comp)!);
+    const unverified = comp.selector?.verified ? [] : ['// Selector was not verified unique at scan time'];
+    if (!comp.frameUrl) return [...unverified, `const component = page.locator(${selector}).first();`];
+
+    return [
+        ...unverified,
+        '// Lives in an iframe; adjust the frame selector if its URL changes between visits',
+        `const component = page.frameLocator(${literal(`iframe[src*="${frameKey(comp.frameUrl)}"]`)}).locator(${selector}).first();`,
+    ];
+};
+
+const hasCredentialFields = (comp: AuthComponent): boolean =>
+    !comp.details.fields || comp.details.fields.some(f => ['email', 'username', 'password', 'phone'].includes(f));
+
+const describe = (comp: AuthComponent): string => {
+    const extra = comp.details.providers?.length ? ` (${comp.details.providers.join(', ')})` : comp.details.method ? ` (${comp.details.method})` : '';
+    return `${comp.type}${extra}`;
+};
+
+// Host and path only: query strings carry per-visit tokens
+const frameKey = (frameUrl: string): string => {
+    try {
+        const url = new URL(frameUrl);
+        return `${url.host}${url.pathname}`.replace(/"/g, '\\"');
+    } catch {
+        return frameUrl.replace(/"/g, '\\"');
+    }
+};
+
+const literal = (value: string): string => JSON.stringify(value);
+
+// Scanned text can't end a line comment or close a block comment
+const comment = (value: string): string => value.replace(/[\r\n\u2028\u2029]+/g, ' ').replace(/\*\//g, '* /');
+
+const indent = (lines: string[]): string[] => lines.map(line => (line ? `${INDENT}${line}` : line));
+
+const safeHost = (url: string): string | undefined => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return undefined;
+    }
+};
@@ -2,16 +2,272 @@
  * Type Definitions for Auth Component Detection
  */
 
+export const AUTH_COMPONENT_TYPES = [
+    'traditional',
+    'oauth',
+    'passwordless',
+    'sso',
+    'mfa',
+    'registration',
+    'recovery',
+    'captcha',
+] as const;
+
+export type AuthComponentType = typeof AUTH_COMPONENT_TYPES[number];
+
+/** Whether a component serves signing in, signing up, or both */
+export type AuthIntent = 'login' | 'signup' | 'both';
+
+/**
+ * Suggested sub-kinds per type (free-form strings are still accepted):
+ * - sso: `saml`, `oidc`, `enterprise`
+ * - mfa: `totp`, `sms`, `email`, `push`, `security-key`, `backup-code`
+ * - recovery: `password-reset`, `username-recovery`, `account-recovery`
+ * - captcha: `recaptcha`, `hcaptcha`, `turnstile`, `arkose`, `custom`
+ */
+export type AuthComponentKind = string;
+
+export type DetectionEngine = 'ai' | 'pattern';
+
+export type EvidenceSource = 'ai' | 'pattern' | 'agreement' | 'a11y' | 'selector' | 'network' | 'runtime';
+
+export interface DetectionEvidence {
+    source: EvidenceSource;
+    /** Pattern id, a11y signal, selector outcome, etc. */
+    detail: string;
+    /** Contribution to the confidence score; negative values penalize */
+    weight: number;
+}
+
+export type NetworkSignalKind =
+    | 'oauth-authorize'
+    | 'token-endpoint'
+    | 'oidc-discovery'
+    | 'identity-sdk'
+    | 'saml'
+    | 'webauthn'
+    | 'captcha'
+    | 'auth-api';
+
+/** Auth-relevant request observed while the page loaded */
+export interface NetworkAuthSignal {
+    kind: NetworkSignalKind;
+    /** Origin and path only; query strings may carry codes or tokens */
+    url: string;
+    method: string;
+    resourceType: string;
+    status?: number;
+    /** Identity provider registry id */
+    provider?: string;
+    /** Extra context, e.g. requested scopes or the discovered issuer */
+    detail?: string;
+}
+
+/** How a page drives WebAuthn: autofill (conditional UI), a modal prompt, or credential registration */
+export type WebAuthnUsage = 'conditional-ui' | 'modal' | 'registration';
+
+/** One `navigator.credentials.get/create` call with a `publicKey` request */
+export interface WebAuthnCall {
+    api: 'get' | 'create';
+    /** `mediation` option for `get` calls (`conditional` drives autofill UI) */
+    mediation?: string;
+    userVerification?: string;
+    /** Length of `allowCredentials`; 0 means discoverable credentials */
+    allowCredentials?: number;
+    /** `authenticatorSelection.residentKey` for `create` calls */
+    residentKey?: string;
+}
+
+/** WebAuthn activity recorded by the instrumentation init script */
+export interface WebAuthnProbeResult {
+    /** `PublicKeyCredential` and `navigator.credentials` exist in the page */
+    supported: boolean;
+    calls: WebAuthnCall[];
+    conditionalMediationChecked: boolean;
+    conditionalMediationAvailable?: boolean;
+    platformAuthenticatorChecked: boolean;
+    /** Inputs with `autocomplete` containing `webauthn` */
+    webauthnInputs: number;
+    usage: WebAuthnUsage[];
+}
+
+export type SelectorStrategy = 'data-testid' | 'id' | 'name' | 'role' | 'structural';
+
+export interface SelectorInfo {
+    /** Selector as written by the AI, pattern rule or fallback */
+    original: string;
+    /** Most robust selector verified to resolve to exactly the matched element */
+    stable?: string;
+    strategy?: SelectorStrategy;
+    /** Number of elements `original` matched on the page */
+    matchCount: number;
+    verified: boolean;
+}
+
+export interface AuthComponentDetails {
+    fields?: string[];
+    providers?: string[];
+    method?: string;
+    kind?: AuthComponentKind;
+    intent?: AuthIntent;
+    playwrightSelector?: string;
+    extractionNote?: string;
+}
+
+export type SecuritySeverity = 'high' | 'medium' | 'low';
+
+export type SecurityCheckId =
+    | 'insecure-page'
+    | 'insecure-form-action'
+    | 'cross-origin-action'
+    | 'password-over-get'
+    | 'password-outside-form'
+    | 'missing-csrf-token'
+    | 'password-autocomplete-off';
+
+/** One issue raised by the login form security audit */
+export interface SecurityFinding {
+    id: SecurityCheckId;
+    severity: SecuritySeverity;
+    message: string;
+    /** CSS selector of the offending element; absent for page-level findings */
+    element?: string;
+}
+
+/** Rectangle in CSS pixels, in document coordinates of the top-level page */
+export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** axe-style impact levels */
+export type AccessibilityImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export type AccessibilityCheckId =
+    | 'missing-label'
+    | 'placeholder-as-label'
+    | 'missing-accessible-name'
+    | 'icon-only-button'
+    | 'positive-tabindex'
+    | 'focus-order'
+    | 'not-focusable'
+    | 'low-contrast-submit'
+    | 'missing-error-association';
+
+/** One issue raised by the accessibility audit of a component */
+export interface AccessibilityFinding {
+    id: AccessibilityCheckId;
+    impact: AccessibilityImpact;
+    message: string;
+    /** Short description of the offending element, e.g. `input[name="email"]` */
+    element?: string;
+    /** Related WCAG 2.x success criteria */
+    wcag?: string;
+}
+
 export interface AuthComponent {
-    type: 'traditional' | 'oauth' | 'passwordless';
+    type: AuthComponentType;
     snippet?: string;
-    details: {
-        fields?: string[];
-        providers?: string[];
-        method?: string;
-        playwrightSelector?: string;
-        extractionNote?: string;
-    };
+    /** Sanitized standalone HTML document of the element with inlined styles, for a sandboxed iframe */
+    preview?: string;
+    /** Engines that reported this component (both when merged in hybrid mode) */
+    detectedBy?: DetectionEngine[];
+    /** 0-1 trust score derived from `evidence` */
+    confidence?: number;
+    evidence?: DetectionEvidence[];
+    selector?: SelectorInfo;
+    /** URL of the iframe the component lives in; absent for the top-level document */
+    frameUrl?: string;
+    /** Whether the matched element was visible; absent when no element matched */
+    visible?: boolean;
+    boundingBox?: BoundingBox;
+    /** Cropped JPEG of the element as a data URL */
+    screenshot?: string;
+    /** Number drawn around this component on `DetectionResult.annotatedScreenshot` */
+    annotationIndex?: number;
+    /** Security audit findings; present (possibly empty) on audited credential forms */
+    security?: SecurityFinding[];
+    /** Accessibility audit findings; present (possibly empty) when the element was found on the page */
+    accessibility?: AccessibilityFinding[];
+    details: AuthComponentDetails;
+}
+
+export type AuthFlowStopReason =
+    | 'credential-step'
+    | 'no-identifier'
+    | 'external-redirect'
+    | 'no-progress'
+    | 'max-steps'
+    | 'timeout'
+    | 'error';
+
+/** One screen of an identifier-first login flow */
+export interface AuthFlowStep {
+    index: number;
+    url: string;
+    /** How this step was reached */
+    action: 'initial' | 'submit-identifier';
+    /** Registry id when the step is hosted by a known identity provider */
+    provider?: string;
+    components: AuthComponent[];
+}
+
+/** Result of exploring a multi-step login flow with a placeholder identifier */
+export interface AuthFlow {
+    /** Synthetic identifier that was typed; never a real account */
+    identifier: string;
+    steps: AuthFlowStep[];
+    stopReason: AuthFlowStopReason;
+    error?: string;
+}
+
+export type LoginDiscoveryAction = 'link' | 'button' | 'modal';
+
+export type LoginDiscoveryStopReason = 'auth-page' | 'no-candidate' | 'max-hops' | 'timeout' | 'error';
+
+/** One hop from an entry page towards its login page */
+export interface LoginDiscoveryStep {
+    /** Page the control was found on */
+    from: string;
+    action: LoginDiscoveryAction;
+    /** Visible text or accessible name of the control */
+    label: string;
+    /** Link target, for `link` steps */
+    href?: string;
+    /** Ranking score of the control among the page's sign-in candidates */
+    score: number;
+    /** Page URL after the hop */
+    url: string;
+}
+
+/** How the scan got from an entry page (e.g. a homepage) to its login page */
+export interface LoginDiscovery {
+    startUrl: string;
+    /** Page detection ran on */
+    authUrl: string;
+    steps: LoginDiscoveryStep[];
+    stopReason: LoginDiscoveryStopReason;
+    error?: string;
+}
+
+export type PlatformSignalKind = 'host' | 'path' | 'script' | 'global' | 'cookie' | 'html';
+
+/** An identity platform matched by one or more declarative signatures */
+export interface PlatformMatch {
+    id: string;
+    name: string;
+    category: 'hosted' | 'self-hosted';
+    /** 0-1, noisy-OR over the matched signals */
+    confidence: number;
+    signals: Array<{ kind: PlatformSignalKind; value: string }>;
+}
+
+export interface PlatformFingerprint {
+    /** Id of the strongest match */
+    primary?: string;
+    matches: PlatformMatch[];
 }
 
 export interface DetectionResult {
@@ -20,19 +276,119 @@ export interface DetectionResult {
     found: boolean;
     components: AuthComponent[];
     detectionMethod: 'ai' | 'pattern' | 'hybrid' | 'none';
+    /** Later login steps, when flow exploration was requested */
+    flow?: AuthFlow;
+    /** Set when `url` was an entry page and the login page was discovered from it */
+    discovery?: LoginDiscovery;
+    /** Identity vendor fingerprint */
+    platform?: PlatformFingerprint;
+    /** Full-page JPEG data URL with numbered boxes matching `annotationIndex` */
+    annotatedScreenshot?: string;
     error?: string;
 }
 
+export type AuthPageKind = 'login' | 'signup' | 'password-reset' | 'sso' | 'mfa' | 'recovery';
+
+/** How the crawler reached a page */
+export type AuthSurfaceEdgeKind = 'root' | 'link' | 'redirect' | 'sitemap';
+
+/** A crawled page: auth-related, or on the path to one */
+export interface AuthSurfaceNode {
+    url: string;
+    /** Empty for pages that only lead to auth pages */
+    kinds: AuthPageKind[];
+    /** Link hops from the root; sitemap seeds count as 1 */
+    depth: number;
+    title?: string;
+    /** Browser scan of the page, for auth pages within the scan limit */
+    result?: DetectionResult;
+    error?: string;
+}
+
+export interface AuthSurfaceEdge {
+    from: string;
+    to: string;
+    via: AuthSurfaceEdgeKind;
+    /** Link text, for `link` edges */
+    label?: string;
+}
+
+/** Auth-related pages of a site and how they link to each other */
+export interface AuthSurfaceMap {
+    root: string;
+    nodes: AuthSurfaceNode[];
+    edges: AuthSurfaceEdge[];
+    stats: {
+        pagesCrawled: number;
+        authPages: number;
+        scanned: number;
+        blockedByRobots: number;
+        sitemapUrls: number;
+        /** The page limit or the time budget stopped the crawl or its scans early */
+        truncated: boolean;
+        duration: number;
+    };
+}
+
+export type ScanChangeKind =
+    | 'component-added'
+    | 'component-removed'
+    | 'provider-added'
+    | 'provider-removed'
+    | 'fields-changed'
+    | 'details-changed'
+    | 'selector-broken'
+    | 'selector-changed'
+    | 'selector-unverified'
+    | 'snippet-changed'
+    | 'platform-changed'
+    | 'auth-url-changed';
+
+/** One difference between two scans of the same URL */
+export interface ScanChange {
+    kind: ScanChangeKind;
+    /** Likely to break automation written against the earlier scan */
+    breaking: boolean;
+    message: string;
+    /** `type` or `type:kind` of the component, for component-level changes */
+    component?: string;
+    before?: string | string[];
+    after?: string | string[];
+}
+
+/**
+ * Match counts of an earlier scan's selectors on a later scan's live page,
+ * keyed by `selectorCheckKey`
+ */
+export type SelectorChecks = Record<string, number>;
+
+/** Changes between two scans, oldest first */
+export interface ScanDiff {
+    from: { id: string; scannedAt: number };
+    to: { id: string; scannedAt: number };
+    breaking: boolean;
+    changes: ScanChange[];
+}
+
+/** Pipeline phase of a log step, in scan order */
+export type ScanStage = 'cache' | 'browser' | 'scrape' | 'explore' | 'detect' | 'ai' | 'extract' | 'audit' | 'cleanup';
+
+/** One pipeline step, as streamed by `GET /api/scrape/stream` */
+export interface ScanProgressEvent {
+    step: string;
+    stage: ScanStage;
+    level: 'info' | 'success' | 'warn' | 'error';
+    /** Milliseconds since the scan started */
+    elapsed: number;
+    message?: string;
+    /** Scalar log fields only, long strings shortened */
+    data?: Record<string, string | number | boolean>;
+}
+
 export interface AIDetectionResponse {
     found: boolean;
     components: Array<{
-        type: 'traditional' | 'oauth' | 'passwordless';
-        details: {
-            fields?: string[];
-            providers?: string[];
-            method?: string;
-            playwrightSelector?: string;
-            extractionNote?: string;
-        };
+        type: AuthComponentType;
+        details: AuthComponentDetails;
     }>;
 }
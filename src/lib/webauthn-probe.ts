@@ -0,0 +1,165 @@
+/**
+ * WebAuthn Capability Probe
+ *
+ * Init script that wraps `navigator.credentials.get/create` and the
+ * `PublicKeyCredential` capability checks, so a scan can tell whether the
+ * page actually drives passkeys rather than just mentioning them.
+ */
+
+import { BrowserContext, Page } from 'playwright';
+import { logger } from './logger';
+import type { WebAuthnCall, WebAuthnProbeResult, WebAuthnUsage } from '@/lib/types/auth.types';
+
+/*============================================================================*
+ * TYPE DEFINITIONS
+ *============================================================================*/
+
+interface WebAuthnTrace {
+    supported: boolean;
+    calls: WebAuthnCall[];
+    conditionalChecks: number;
+    conditionalAvailable?: boolean;
+    platformChecks: number;
+}
+
+/*============================================================================*
+ * INSTRUMENTATION
+ *============================================================================*/
+
+/**
+ * Install the probe on every page and frame the context opens. Must run
+ * before navigation; calls made before install are not seen.
+ */
+export async function installWebAuthnProbe(context: BrowserContext, requestId: string): Promise<void> {
+    await context.addInitScript(instrumentWebAuthn);
+    logger.info(requestId, 'WEBAUTHN_PROBE_INSTALLED', { apis: 'credentials.get,credentials.create,isConditionalMediationAvailable' });
+}
+
+/**
+ * Runs in the page before any page script. Kept self-contained because
+ * Playwright serializes it. Original APIs are always called through, so
+ * page behaviour is unchanged.
+ */
+const instrumentWebAuthn = () => {
+    const host = window as unknown as { __authDetectorWebAuthn?: WebAuthnTrace };
+    if (host.__authDetectorWebAuthn) return;
+
+    const trace: WebAuthnTrace = {
+        supported: typeof PublicKeyCredential !== 'undefined' && !!navigator.credentials,
+        calls: [],
+        conditionalChecks: 0,
+        platformChecks: 0,
+    };
+    host.__authDetectorWebAuthn = trace;
+    if (!trace.supported) return;
+
+    const credentials = navigator.credentials;
+    const originalGet = credentials.get.bind(credentials);
+    const originalCreate = credentials.create.bind(credentials);
+
+    credentials.get = (options?: CredentialRequestOptions) => {
+        if (options?.publicKey) {
+            trace.calls.push({
+                api: 'get',
+                mediation: options.mediation || 'optional',
+                userVerification: options.publicKey.userVerification,
+                allowCredentials: options.publicKey.allowCredentials?.length ?? 0,
+            });
+        }
+        return originalGet(options);
+    };
+
+    credentials.create = (options?: CredentialCreationOptions) => {
+        if (options?.publicKey) {
+            trace.calls.push({
+                api: 'create',
+                userVerification: options.publicKey.authenticatorSelection?.userVerification,
+                residentKey: options.publicKey.authenticatorSelection?.residentKey,
+            });
+        }
+        return originalCreate(options);
+    };
+
+    const pkc = PublicKeyCredential as typeof PublicKeyCredential & { isConditionalMediationAvailable?: () => Promise<boolean> };
+    const originalConditional = pkc.isConditionalMediationAvailable;
+    if (originalConditional) {
+        pkc.isConditionalMediationAvailable = () => {
+            trace.conditionalChecks++;
+            return originalConditional.call(pkc).then(available => {
+                trace.conditionalAvailable = available;
+                return available;
+            });
+        };
+    }
+
+    const originalPlatform = pkc.isUserVerifyingPlatformAuthenticatorAvailable;
+    if (originalPlatform) {
+        pkc.isUserVerifyingPlatformAuthenticatorAvailable = () => {
+            trace.platformChecks++;
+            return originalPlatform.call(pkc);
+        };
+    }
+};
+
+/*============================================================================*
+ * RESULT COLLECTION
+ *============================================================================*/
+
+/**
+ * Read what the probe recorded on the main frame, plus `autocomplete="webauthn"`
+ * inputs. Returns undefined when the probe is missing or the page is gone.
+ */
+export async function readWebAuthnProbe(page: Page, requestId: string): Promise<WebAuthnProbeResult | undefined> {
+    try {
+        const raw = await page.evaluate(() => ({
+            trace: (window as unknown as { __authDetectorWebAuthn?: WebAuthnTrace }).__authDetectorWebAuthn,
+            webauthnInputs: document.querySelectorAll('input[autocomplete*="webauthn" i]').length,
+        }));
+
+        if (!raw.trace) {
+            logger.warn(requestId, 'WEBAUTHN_PROBE_MISSING', 'Instrumentation not found in page');
+            return undefined;
+        }
+
+        const result: WebAuthnProbeResult = {
+            supported: raw.trace.supported,
+            calls: raw.trace.calls,
+            conditionalMediationChecked: raw.trace.conditionalChecks > 0,
+            conditionalMediationAvailable: raw.trace.conditionalAvailable,
+            platformAuthenticatorChecked: raw.trace.platformChecks > 0,
+            webauthnInputs: raw.webauthnInputs,
+            usage: usageOf(raw.trace.calls),
+        };
+
+        logger.info(requestId, 'WEBAUTHN_PROBE_RESULT', {
+            supported: result.supported,
+            calls: result.calls.length,
+            usage: result.usage.join(',') || 'none',
+            conditionalChecked: result.conditionalMediationChecked,
+            webauthnInputs: result.webauthnInputs,
+        });
+
+        return result;
+    } catch (error) {
+        logger.warn(requestId, 'WEBAUTHN_PROBE_FAILED', error instanceof Error ? error.message : String(error));
+        return undefined;
+    }
+}
+
+/** True when the page invoked WebAuthn or exposes a passkey autofill input */
+export function hasWebAuthnActivity(probe: WebAuthnProbeResult | undefined): probe is WebAuthnProbeResult {
+    return !!probe && (probe.calls.length > 0 || probe.webauthnInputs > 0);
+}
+
+/*============================================================================*
+ * UTILITY FUNCTIONS
+ *============================================================================*/
+
+function usageOf(calls: WebAuthnCall[]): WebAuthnUsage[] {
+    const usage = new Set<WebAuthnUsage>();
+    for (const call of calls) {
+        if (call.api === 'create') usage.add('registration');
+        else usage.add(call.mediation === 'conditional' ? 'conditional-ui' : 'modal');
+    }
+    return [...usage];
+}